@@ -0,0 +1,143 @@
+import {SourceLocation} from "./types"
+
+// The declarations of a module as they're generated from the getdocs output,
+// before they're printed. Types are kept as the text `gentype` makes of
+// them.
+
+// Where a node was documented
+export interface NodeOrigin {
+  id?: string
+  loc?: SourceLocation
+}
+
+// The declaration an output line belongs to
+export interface DeclarationOrigin extends NodeOrigin {
+  module: string
+  // the top-level declaration's name
+  name: string
+}
+
+// A type as the members of a union, or as its only member, so that long
+// unions can be printed one member per line
+export type TypeNode = string[]
+
+export interface SignatureNode {
+  // e.g. `<T>`, or empty
+  typeParams: string
+  // e.g. `a: number`
+  params: string[]
+  // absent for constructors
+  returns?: string
+}
+
+export interface Documented extends NodeOrigin {
+  // the lines of the doc comment, without the comment syntax. A comment is
+  // only printed if there are any.
+  doc: string[]
+}
+
+export interface ConstructorNode extends Documented {
+  kind: "constructor"
+  signature: SignatureNode
+}
+
+export interface MethodNode extends Documented {
+  kind: "method"
+  name: string
+  static: boolean
+  signature: SignatureNode
+}
+
+export interface PropertyNode extends Documented {
+  kind: "property"
+  name: string
+  static: boolean
+  readonly: boolean
+  optional: boolean
+  // properties without one are declared untyped
+  type?: TypeNode
+}
+
+export interface GetterNode extends Documented {
+  kind: "getter"
+  name: string
+  static: boolean
+  type: TypeNode
+}
+
+export type MemberNode = ConstructorNode | MethodNode | PropertyNode | GetterNode
+
+// How a top-level declaration is exported. A declaration exported under
+// another name than it's declared with gets an `export { name as exportAs }`.
+export interface Exportable {
+  exported: boolean
+  exportAs?: string
+}
+
+export interface ClassOrInterfaceNode extends Documented, Exportable {
+  kind: "class" | "interface"
+  name: string
+  typeParams: string
+  extends?: string
+  implements?: string
+  members: MemberNode[]
+}
+
+export interface AliasNode extends Documented, Exportable {
+  kind: "alias"
+  name: string
+  typeParams: string
+  type: TypeNode
+}
+
+export interface FunctionNode extends Documented, Exportable {
+  kind: "function"
+  name: string
+  signature: SignatureNode
+}
+
+export interface VariableNode extends Documented, Exportable {
+  kind: "variable"
+  name: string
+  const: boolean
+  type?: TypeNode
+}
+
+// Code from the `code` of a type info, printed as is
+export interface CustomNode extends NodeOrigin {
+  kind: "custom"
+  name: string
+  lines: string[]
+}
+
+export type DeclarationNode = ClassOrInterfaceNode | AliasNode | FunctionNode | VariableNode | CustomNode
+
+// A name in an import or export clause, as in `Node as ProsemirrorNode`
+export interface ClauseName {
+  name: string
+  as?: string
+}
+
+export interface ImportNode {
+  kind: "import"
+  module: string
+  names: ClauseName[]
+  // imported with `import X = require(...)`
+  wholeModuleAs?: string
+}
+
+export interface ReexportNode {
+  kind: "reexport"
+  module: string
+  names: ClauseName[]
+  // re-exported with `export * from`
+  all: boolean
+}
+
+export interface ModuleNode {
+  kind: "module"
+  name: string
+  imports: ImportNode[]
+  reexports: ReexportNode[]
+  declarations: DeclarationNode[]
+}
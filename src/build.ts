@@ -1,13 +1,40 @@
 const fs = require("fs")
-const getdocs = require("getdocs")
 const mkdirp = require('mkdirp');
 const path = require('path')
 const glob = require('glob');
+const jsdiff = require('diff');
 
-import {ModuleContents, Declaration} from "./types"
-import {TypeInfos, mergeTypeInfos} from "./env"
-import {exportedTypeInfos} from "./exports"
-import moduleDef from "./genmodule";
+import {ModuleContents, SourceLocation} from "./types"
+import {TypeInfos, GetterStyle, IndexSignatureStyle} from "./env"
+import {generateFiles, generateBundleFile, gatherModule, ModuleInput, StrippedDeclaration} from "./generate"
+import {Diagnostic, Diagnostics, formatDiagnostic} from "./diagnostics"
+import {Overrides} from "./overrides"
+import {DependencyGraph} from "./graph"
+import {PackageInfo, packageHeader, exportedNames, scaffoldFiles} from "./scaffold"
+import {extractExamples, examplesFile} from "./examples"
+import {declarationMap, sourceMappingURL} from "./sourcemap"
+import {GeneratedFile} from "./validate"
+import {InternalStyle} from "./tags"
+import {Printer, PrinterOptions} from "./printer"
+import {Plugin} from "./plugins"
+
+export {
+  generate, generateFiles, generateBundle, generateBundleFile, gatherModule, ModuleInput, GenerateOptions, BundleOptions,
+  StrippedDeclaration
+} from "./generate"
+export {GeneratedFile} from "./validate"
+export {Diagnostic, Diagnostics, formatDiagnostic} from "./diagnostics"
+export {DependencyGraph} from "./graph"
+export {PackageInfo} from "./scaffold"
+export {MemberOverride, Overrides} from "./overrides"
+export {InternalStyle} from "./tags"
+export {PrinterOptions, ArrayStyle, LineEnding} from "./printer"
+export {Plugin} from "./plugins"
+export {
+  DeclarationNode, ClassOrInterfaceNode, AliasNode, FunctionNode, VariableNode, CustomNode, MemberNode, ConstructorNode,
+  MethodNode, PropertyNode, GetterNode, SignatureNode, TypeNode, ModuleNode
+} from "./ast"
+export {GeneratedModule, TransformContext} from "./genmodule"
 
 function mkdirpIfNotExists(dir: string) {
   if (!fs.existsSync(dir)) {
@@ -16,50 +43,397 @@ function mkdirpIfNotExists(dir: string) {
   }
 }
 
-function readGetdocs (config: { files: string }): ModuleContents {
-  const items: { [name: string]: Declaration } = Object.create(null)
-  const files = config.files.split(" ").reduce(
+function writeOutFile(outFile: string, contents: string) {
+  mkdirpIfNotExists(path.dirname(outFile))
+  fs.writeFileSync(outFile, contents);
+}
+
+function globFiles(files: string): string[] {
+  return files.split(" ").reduce(
     (set: string[], pat: string) => set.concat(glob.sync(pat)),
     []
   );
-  files.forEach((filename:string) => {
-    const file = fs.readFileSync(filename, "utf8")
-    getdocs.gather(file, {filename: filename, items: items})
+}
+
+function readSources(config: { files: string }): { [filename: string]: string } {
+  const sources: { [filename: string]: string } = Object.create(null)
+  globFiles(config.files).forEach((filename: string) => {
+    sources[filename] = fs.readFileSync(filename, "utf8")
   });
+  return sources
+}
 
-  return {
-    items: items,
-    all: gatherAll({properties: items}, Object.create(null))
-  };
+// `outFile` is only needed when not writing a bundle. With `package`, the
+// DefinitelyTyped header is put in front of `header`.
+export type ModuleConfig = { name: string, srcFiles: string, outFile?: string, header?: string, package?: PackageInfo }
+
+function moduleHeader(module: ModuleConfig): string {
+  return (module.package ? packageHeader(module.name, module.package) : "") + (module.header || "")
 }
 
-function gatherAll(obj: any, target: { [name: string]: Declaration }): { [name: string]: Declaration } {
-  if (obj.id) target[obj.id] = obj
-  if (Object.prototype.hasOwnProperty.call(obj, "constructor")) gatherAll(obj.constructor, target)
-  if (obj.properties) for (var prop in obj.properties) gatherAll(obj.properties[prop], target)
-  if (obj.staticProperties) for (var prop in obj.staticProperties) gatherAll(obj.staticProperties[prop], target)
-  return target
+export interface BuildOptions {
+  // names of the modules to write; all modules are still read so that
+  // cross-module imports resolve. Defaults to every module.
+  modules?: string[]
+  // compare the generated declarations with the output files instead of
+  // writing them, printing a diff for every file that is out of date
+  check?: boolean
+  // type check the generated declarations with the TypeScript compiler
+  validate?: boolean
+  // fail the build on warnings, not just on errors. Nothing is written when
+  // the build fails.
+  strict?: boolean
+  // corrections for single members, keyed by module-prefixed getdocs id
+  overrides?: Overrides
+  // declare getters as `readonly` properties (the default) or `get` accessors
+  getters?: GetterStyle
+  // how `Object<T>` and `Object` are declared, unless the type infos say
+  // otherwise
+  indexSignatures?: IndexSignatureStyle
+  // also write the other files of a DefinitelyTyped package next to each
+  // `outFile`
+  scaffold?: boolean
+  // write the code blocks of each module's descriptions into a
+  // `<name>-examples.ts` next to its `outFile`
+  examples?: boolean
+  // end every declaration and member in a comment with its source location
+  locationComments?: boolean
+  // write a declaration map (`index.d.ts.map`) next to every output file, so
+  // that editors can go from a declaration to its doc comment
+  declarationMaps?: boolean
+  // leave out the declarations and members tagged `#internal` or marked
+  // internal in prose ("strip"), or keep them with an `@internal` tag ("mark",
+  // the default)
+  internal?: InternalStyle
+  // indentation, line endings, line width and array style of the
+  // declarations
+  printer?: PrinterOptions
+  // hooks into gathering, building, printing and type name resolution, run
+  // in order
+  plugins?: Plugin[]
+  // write all modules to a single file, each in a `declare module` block,
+  // instead of writing each module to its own `outFile`
+  bundle?: { outFile: string, header?: string }
 }
 
-export default function (
-  modules: { name: string, srcFiles: string, outFile: string, header?: string }[],
-  typeInfos: TypeInfos
-) {
+export interface BuildResult {
+  success: boolean
+  // output files that don't match the generated declarations (check mode only)
+  outdatedFiles: string[]
+  diagnostics: Diagnostic[]
+  // the modules each module imports from or re-exports
+  dependencies: DependencyGraph
+  // the internal declarations that were left out
+  stripped: StrippedDeclaration[]
+}
+
+function printDiagnostics(diagnostics: Diagnostics) {
+  for (let diagnostic of diagnostics.list) {
+    if (diagnostic.severity == "info") continue
+    console.log(formatDiagnostic(diagnostic))
+  }
+}
 
-  let moduleContents: { [name: string]: ModuleContents } = Object.create(null)
+function hasFailed(diagnostics: Diagnostics, strict?: boolean): boolean {
+  return diagnostics.count("error") > 0 || (!!strict && diagnostics.count("warning") > 0)
+}
 
-  for (let module of modules) {
-    const mod = readGetdocs({ files: module.srcFiles })
-    typeInfos = mergeTypeInfos(exportedTypeInfos(module.name, mod), typeInfos)
-    moduleContents[module.name] = mod
+function checkOutFile(outFile: string, contents: string): boolean {
+  const current = fs.existsSync(outFile) ? fs.readFileSync(outFile, "utf8") : ""
+  if (current == contents) return true
+  process.stdout.write(jsdiff.createTwoFilesPatch(outFile, outFile, current, contents, "on disk", "generated"))
+  return false
+}
+
+// A source location relative to the directory of the file it's mentioned in,
+// so that generated files don't depend on where the sources were checked out
+function relativeLocation(dir: string, loc: SourceLocation): string {
+  return path.relative(dir, loc.file).split(path.sep).join("/") + ":" + loc.line
+}
+
+// Generates the contents of every output file, keyed by file name.
+function generateOutFiles(
+  modules: ModuleConfig[],
+  inputs: ModuleInput[],
+  typeInfos: TypeInfos,
+  options: BuildOptions,
+  diagnostics: Diagnostics,
+  dependencies?: DependencyGraph,
+  stripped?: StrippedDeclaration[],
+  contents?: { [moduleName: string]: ModuleContents }
+): { [outFile: string]: string } {
+  const bundle = options.bundle
+  const outDirOf = (moduleName: string) => {
+    const outFile = bundle ? bundle.outFile : modules.filter((module) => module.name == moduleName)[0].outFile
+    return outFile ? path.dirname(outFile) : process.cwd()
+  }
+  const generateOptions = {
+    diagnostics,
+    dependencies,
+    validate: options.validate,
+    overrides: options.overrides,
+    getters: options.getters,
+    indexSignatures: options.indexSignatures,
+    internal: options.internal,
+    stripped,
+    contents,
+    printer: options.printer,
+    plugins: options.plugins,
+    locationComments: options.locationComments
+      ? (moduleName: string, loc: SourceLocation) => relativeLocation(outDirOf(moduleName), loc)
+      : undefined
+  }
+  const outFiles: { [outFile: string]: string } = Object.create(null)
+  function addOutFile(outFile: string, file: GeneratedFile) {
+    if (options.declarationMaps) {
+      outFiles[outFile] = file.text + sourceMappingURL(outFile, new Printer(options.printer).newLine)
+      outFiles[outFile + ".map"] = declarationMap(file, outFile)
+    } else {
+      outFiles[outFile] = file.text
+    }
   }
 
+  if (bundle) {
+    if (options.modules) throw new Error("modules can't be selected when writing a bundle")
+    addOutFile(bundle.outFile, generateBundleFile(inputs, typeInfos, Object.assign({ header: bundle.header }, generateOptions)))
+    return outFiles
+  }
+  const files = generateFiles(inputs, typeInfos, generateOptions)
+  const selected = options.modules
   for (let module of modules) {
-    const mod = moduleContents[module.name]
-    let sb = moduleDef(mod, module.name, typeInfos);
-    sb.push('') // end file with a newline
-    mkdirpIfNotExists(path.dirname(module.outFile))
-    fs.writeFileSync(module.outFile, (module.header || '') + sb.join("\n"));
+    if (selected && selected.indexOf(module.name) == -1) continue
+    if (typeof module.outFile != "string") throw new Error("module '" + module.name + "' has no outFile")
+    addOutFile(module.outFile, files[module.name])
+  }
+  return outFiles
+}
+
+export default function (
+  modules: ModuleConfig[],
+  typeInfos: TypeInfos,
+  options: BuildOptions = {}
+): BuildResult {
+
+  const diagnostics = new Diagnostics()
+  const dependencies: DependencyGraph = Object.create(null)
+  const stripped: StrippedDeclaration[] = []
+  // what the declarations were generated from, which the exported names and
+  // examples are taken from
+  const contents: { [moduleName: string]: ModuleContents } = Object.create(null)
+  const inputs = modules.map((module) => ({
+    name: module.name,
+    contents: gatherModule(readSources({ files: module.srcFiles })),
+    header: moduleHeader(module)
+  }))
+  const outFiles = generateOutFiles(modules, inputs, typeInfos, options, diagnostics, dependencies, stripped, contents)
+  if (options.scaffold || options.examples) {
+    if (options.bundle) throw new Error("packages can't be scaffolded and examples can't be extracted when writing a bundle")
+    const moduleNames = modules.map((module) => module.name)
+    modules.forEach((module) => {
+      if (options.modules && options.modules.indexOf(module.name) == -1) return
+      const names = exportedNames(module.name, moduleNames, contents[module.name])
+      const files = options.scaffold ? scaffoldFiles(module.name, names) : Object.create(null)
+      const examples = options.examples ? extractExamples(contents[module.name]) : []
+      if (examples.length > 0) {
+        const outDir = path.dirname(module.outFile)
+        files[module.name + "-examples.ts"] = examplesFile(module.name, names, examples, (loc) => relativeLocation(outDir, loc))
+      }
+      for (let fileName in files) outFiles[path.join(path.dirname(module.outFile), fileName)] = files[fileName]
+    })
+  }
+  printDiagnostics(diagnostics)
+
+  const result: BuildResult = {
+    success: !hasFailed(diagnostics, options.strict),
+    outdatedFiles: [],
+    diagnostics: diagnostics.list,
+    dependencies,
+    stripped
+  }
+  for (let outFile in outFiles) {
+    if (options.check) {
+      if (!checkOutFile(outFile, outFiles[outFile])) {
+        result.success = false
+        result.outdatedFiles.push(outFile)
+      }
+    } else if (result.success) {
+      writeOutFile(outFile, outFiles[outFile])
+    }
+  }
+
+  return result
+}
+
+// The directory a glob pattern starts matching in, i.e. its longest prefix
+// without any glob magic.
+function globBase(pattern: string): string {
+  const parts = pattern.split("/")
+  let i = 0
+  while (i < parts.length - 1 && (parts[i] == "" || !glob.hasMagic(parts[i]))) i++
+  const base = parts.slice(0, i).join("/")
+  return base == "" ? (pattern.charAt(0) == "/" ? "/" : ".") : base
+}
+
+// A source file's text, with the mtime it was read at
+type SourceFile = { mtime: number, text: string }
+
+function isDirectory(file: string): boolean {
+  try {
+    return fs.statSync(file).isDirectory()
+  } catch (e) {
+    return false
+  }
+}
+
+// `dir` and the directories below it, except for hidden ones and
+// `node_modules`
+function directoriesBelow(dir: string): string[] {
+  const names: string[] = fs.readdirSync(dir)
+  return [dir].concat(...names
+    .filter((name) => name.charAt(0) != "." && name != "node_modules" && isDirectory(path.join(dir, name)))
+    .map((name) => directoriesBelow(path.join(dir, name))))
+}
+
+interface DirectoryWatcher {
+  close(): void
+}
+
+export interface Watcher {
+  close(): void
+}
+
+// Builds the modules and then keeps watching their source files. When a file
+// changes, only that file is read again and only the modules it belongs to
+// are gathered again. Every module is regenerated in memory from what was
+// gathered, but only the output files whose contents changed are written,
+// which includes modules that import a type from the changed module.
+export function watch(
+  modules: ModuleConfig[],
+  typeInfos: TypeInfos,
+  options: BuildOptions = {}
+): Watcher {
+
+  // the source files of each module as they were last read
+  const sources: { [moduleName: string]: { [filename: string]: SourceFile } } = Object.create(null)
+  // the contents gathered from each module's sources, until they change
+  const gathered: { [moduleName: string]: ModuleContents } = Object.create(null)
+  // the contents of each output file as it was last written
+  const written: { [outFile: string]: string } = Object.create(null)
+
+  // Re-globs every module and reads the files that are new or were modified
+  // since they were last read, dropping what was gathered from the modules
+  // they belong to. Returns whether anything changed.
+  function update(): boolean {
+    let changed = false
+    for (let module of modules) {
+      const files = sources[module.name] || (sources[module.name] = Object.create(null))
+      const current = globFiles(module.srcFiles)
+      let moduleChanged = false
+      for (let filename in files) {
+        if (current.indexOf(filename) == -1) {
+          delete files[filename]
+          moduleChanged = true
+        }
+      }
+      for (let filename of current) {
+        const mtime = fs.statSync(filename).mtime.getTime()
+        const known = files[filename]
+        if (!known || mtime != known.mtime) {
+          files[filename] = { mtime, text: fs.readFileSync(filename, "utf8") }
+          moduleChanged = true
+        }
+      }
+      if (moduleChanged) {
+        delete gathered[module.name]
+        changed = true
+      }
+    }
+    return changed
   }
 
+  // The contents of a module, gathered from the files read so far the same
+  // way a build does, unless that was done since they last changed. A module
+  // that fails to gather is gathered again on the next run.
+  function gather(module: ModuleConfig): ModuleContents {
+    if (gathered[module.name]) return gathered[module.name]
+    const files = sources[module.name]
+    const texts: { [filename: string]: string } = Object.create(null)
+    for (let filename of Object.keys(files).sort()) texts[filename] = files[filename].text
+    return gathered[module.name] = gatherModule(texts)
+  }
+
+  // Regenerates the modules and writes the output files that changed
+  function regenerate() {
+    const diagnostics = new Diagnostics()
+    const inputs = modules.map((module) => ({ name: module.name, contents: gather(module), header: moduleHeader(module) }))
+    const outFiles = generateOutFiles(modules, inputs, typeInfos, options, diagnostics)
+    printDiagnostics(diagnostics)
+    if (hasFailed(diagnostics, options.strict)) return
+
+    for (let outFile in outFiles) {
+      const contents = outFiles[outFile]
+      if (written[outFile] == contents) continue
+      if (!(outFile in written) && fs.existsSync(outFile) && fs.readFileSync(outFile, "utf8") == contents) {
+        written[outFile] = contents
+        continue
+      }
+      writeOutFile(outFile, contents)
+      written[outFile] = contents
+      console.log("wrote '" + outFile + "'")
+    }
+  }
+
+  let timeout: NodeJS.Timer | null = null
+  function schedule() {
+    if (timeout != null) clearTimeout(timeout)
+    timeout = setTimeout(() => { timeout = null; run(false) }, 50)
+  }
+
+  // Watches the directories the source patterns start matching in and every
+  // directory below them. Since watching a directory doesn't cover the ones
+  // below it, this runs after every change, to watch directories that were
+  // created and stop watching those that were removed.
+  const watchers: { [dir: string]: DirectoryWatcher } = Object.create(null)
+  function watchDirectories() {
+    const dirs: string[] = []
+    for (let module of modules) {
+      for (let pattern of module.srcFiles.split(" ")) {
+        const base = globBase(pattern)
+        if (pattern == "" || !isDirectory(base)) continue
+        for (let dir of directoriesBelow(base)) if (dirs.indexOf(dir) == -1) dirs.push(dir)
+      }
+    }
+    for (let dir in watchers) {
+      if (dirs.indexOf(dir) > -1) continue
+      watchers[dir].close()
+      delete watchers[dir]
+    }
+    for (let dir of dirs) if (!watchers[dir]) watchers[dir] = fs.watch(dir, schedule)
+  }
+
+  function attempt(f: () => void) {
+    try {
+      f()
+    } catch (e) {
+      console.error("getdocs2ts: " + (e instanceof Error ? e.message : e))
+    }
+  }
+
+  // a build that fails keeps the directories watched, so that it's retried
+  // when the sources are fixed
+  function run(initial: boolean) {
+    attempt(() => { if (update() || initial) regenerate() })
+    attempt(watchDirectories)
+  }
+
+  run(true)
+  const count = Object.keys(watchers).length
+  console.log("watching " + count + " director" + (count == 1 ? "y" : "ies") + " for changes")
+
+  return {
+    close() {
+      if (timeout != null) clearTimeout(timeout)
+      for (let dir in watchers) watchers[dir].close()
+    }
+  }
 }
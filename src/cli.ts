@@ -0,0 +1,257 @@
+#!/usr/bin/env node
+const fs = require("fs")
+const path = require("path")
+
+import {TypeInfos, GetterStyle, IndexSignatureStyle} from "./env"
+import build, {ModuleConfig, Overrides, InternalStyle, PrinterOptions, Plugin, watch} from "./build"
+import {pluginName} from "./plugins"
+
+export interface Config {
+  modules: ModuleConfig[]
+  typeInfos?: TypeInfos
+  // write a single file with a `declare module` block per module
+  bundle?: { outFile: string, header?: string }
+  overrides?: Overrides
+  getters?: GetterStyle
+  indexSignatures?: IndexSignatureStyle
+  internal?: InternalStyle
+  printer?: PrinterOptions
+  plugins?: Plugin[]
+}
+
+interface CliArgs {
+  config: string
+  outDir?: string
+  modules?: string[]
+  check?: boolean
+  watch?: boolean
+  strict?: boolean
+  validate?: boolean
+  dependencies?: boolean
+  scaffold?: boolean
+  examples?: boolean
+  locationComments?: boolean
+  declarationMaps?: boolean
+  help?: boolean
+}
+
+const usage = [
+  "Usage: getdocs2ts [options]",
+  "",
+  "Options:",
+  "  -c, --config <file>    config file to read (default: getdocs2ts.config.js);",
+  "                         plugins need a JavaScript config, not a JSON one",
+  "  -o, --out-dir <dir>    resolve each module's outFile relative to <dir>",
+  "                         instead of the config file's directory",
+  "  -m, --module <name>    only write the given module (may be repeated or",
+  "                         given a comma-separated list)",
+  "      --check            don't write anything, fail if an output file is",
+  "                         out of date and print a diff",
+  "  -w, --watch            keep running and regenerate declarations when a",
+  "                         source file changes",
+  "      --validate         type check the generated declarations with the",
+  "                         TypeScript compiler",
+  "      --strict           fail when there are warnings, e.g. unknown types",
+  "      --dependencies     print the modules each module depends on",
+  "      --scaffold         also write the tsconfig.json, tslint.json and",
+  "                         tests of a DefinitelyTyped package per module",
+  "      --examples         write the code examples of each module's docs",
+  "                         into a test file next to its declarations",
+  "      --location-comments",
+  "                         end every declaration with a comment saying where",
+  "                         it is documented",
+  "      --declaration-maps write a .d.ts.map next to every output file that",
+  "                         leads to the documented sources",
+  "  -h, --help             show this message"
+].join("\n")
+
+function parseArgs(argv: string[]): CliArgs {
+  const args: CliArgs = { config: "getdocs2ts.config.js" }
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i]
+    const value = () => {
+      if (i + 1 >= argv.length) throw new Error("missing value for '" + arg + "'")
+      return argv[++i]
+    }
+    switch (arg) {
+      case "-c": case "--config":
+        args.config = value()
+        break
+      case "-o": case "--out-dir":
+        args.outDir = value()
+        break
+      case "-m": case "--module":
+        args.modules = (args.modules || []).concat(value().split(",").filter((name) => name != ""))
+        break
+      case "--check":
+        args.check = true
+        break
+      case "-w": case "--watch":
+        args.watch = true
+        break
+      case "--validate":
+        args.validate = true
+        break
+      case "--strict":
+        args.strict = true
+        break
+      case "--dependencies":
+        args.dependencies = true
+        break
+      case "--scaffold":
+        args.scaffold = true
+        break
+      case "--examples":
+        args.examples = true
+        break
+      case "--location-comments":
+        args.locationComments = true
+        break
+      case "--declaration-maps":
+        args.declarationMaps = true
+        break
+      case "-h": case "--help":
+        args.help = true
+        break
+      default:
+        throw new Error("unknown option '" + arg + "'")
+    }
+  }
+  return args
+}
+
+// Paths in the config file are relative to the directory it lives in, except
+// for output files when an output directory is given on the command line.
+function resolveModule(module: ModuleConfig, configDir: string, outDir: string): ModuleConfig {
+  return {
+    name: module.name,
+    srcFiles: module.srcFiles.split(" ").filter((pat) => pat != "").map((pat) => path.resolve(configDir, pat)).join(" "),
+    outFile: module.outFile && path.resolve(outDir, module.outFile),
+    header: module.header,
+    package: module.package
+  }
+}
+
+// Plugins are objects of functions, which a JSON config can't hold
+function checkPlugins(plugins: Plugin[], file: string) {
+  if (!Array.isArray(plugins)) throw new Error("'plugins' in '" + file + "' must be an array")
+  plugins.forEach((plugin, i) => {
+    if (!plugin || typeof plugin != "object") {
+      throw new Error("plugin " + (i + 1) + " in '" + file + "' isn't an object; plugins need a JavaScript config")
+    }
+    const hooks: { [hook: string]: {} | undefined } = {
+      gathered: plugin.gathered, declaration: plugin.declaration, rendered: plugin.rendered, resolveTypeName: plugin.resolveTypeName
+    }
+    for (let hook in hooks) {
+      if (hooks[hook] !== undefined && typeof hooks[hook] != "function") {
+        throw new Error("'" + hook + "' of plugin " + pluginName(plugin, i) + " in '" + file + "' isn't a function; plugins need a JavaScript config")
+      }
+    }
+  })
+}
+
+export function readConfig(file: string): Config {
+  const config: Config = require(path.resolve(file))
+  if (!config || !Array.isArray(config.modules)) {
+    throw new Error("config file '" + file + "' does not export a 'modules' array")
+  }
+  for (let module of config.modules) {
+    if (typeof module.name != "string" || typeof module.srcFiles != "string") {
+      throw new Error("every module in '" + file + "' needs a 'name' and 'srcFiles'")
+    }
+    if (!config.bundle && typeof module.outFile != "string") {
+      throw new Error("module '" + module.name + "' in '" + file + "' needs an 'outFile'")
+    }
+  }
+  if (config.bundle && typeof config.bundle.outFile != "string") {
+    throw new Error("the bundle in '" + file + "' needs an 'outFile'")
+  }
+  if (config.plugins !== undefined) checkPlugins(config.plugins, file)
+  return config
+}
+
+export function main(argv: string[]): number {
+  try {
+    const args = parseArgs(argv)
+    if (args.help) {
+      console.log(usage)
+      return 0
+    }
+    if (!fs.existsSync(args.config)) {
+      throw new Error("config file '" + args.config + "' not found")
+    }
+    const config = readConfig(args.config)
+    const configDir = path.dirname(path.resolve(args.config))
+    const outDir = args.outDir ? path.resolve(args.outDir) : configDir
+    const known = config.modules.map((module) => module.name)
+    for (let name of args.modules || []) {
+      if (known.indexOf(name) == -1) throw new Error("unknown module '" + name + "'")
+    }
+    const modules = config.modules.map((module) => resolveModule(module, configDir, outDir))
+    const bundle = config.bundle && { outFile: path.resolve(outDir, config.bundle.outFile), header: config.bundle.header }
+    if (args.watch) {
+      if (args.check) throw new Error("'--check' can't be combined with '--watch'")
+      if (args.dependencies) throw new Error("'--dependencies' can't be combined with '--watch'")
+      if (args.scaffold) throw new Error("'--scaffold' can't be combined with '--watch'")
+      if (args.examples) throw new Error("'--examples' can't be combined with '--watch'")
+      watch(modules, config.typeInfos || {}, {
+        modules: args.modules,
+        strict: args.strict,
+        validate: args.validate,
+        overrides: config.overrides,
+        getters: config.getters,
+        indexSignatures: config.indexSignatures,
+        internal: config.internal,
+        printer: config.printer,
+        plugins: config.plugins,
+        locationComments: args.locationComments,
+        declarationMaps: args.declarationMaps,
+        bundle
+      })
+      return 0
+    }
+    const result = build(modules, config.typeInfos || {}, {
+      modules: args.modules,
+      check: args.check,
+      strict: args.strict,
+      validate: args.validate,
+      overrides: config.overrides,
+      getters: config.getters,
+      indexSignatures: config.indexSignatures,
+      internal: config.internal,
+      printer: config.printer,
+      plugins: config.plugins,
+      scaffold: args.scaffold,
+      examples: args.examples,
+      locationComments: args.locationComments,
+      declarationMaps: args.declarationMaps,
+      bundle
+    })
+    if (args.dependencies) {
+      for (let name in result.dependencies) {
+        console.log(name + ": " + (result.dependencies[name].join(", ") || "(none)"))
+      }
+    }
+    if (result.stripped.length > 0) {
+      console.log("getdocs2ts: stripped " + result.stripped.length + " internal declaration" + (result.stripped.length == 1 ? "" : "s") + ":")
+      for (let decl of result.stripped) console.log("  " + decl.module + " " + decl.id)
+    }
+    if (!result.success) {
+      if (result.outdatedFiles.length > 0) {
+        console.error("getdocs2ts: out of date: " + result.outdatedFiles.join(", "))
+      } else {
+        const problems = result.diagnostics.filter((d) => d.severity == "error" || (args.strict && d.severity == "warning"))
+        console.error("getdocs2ts: failed with " + problems.length + " problem" + (problems.length == 1 ? "" : "s"))
+      }
+      return 1
+    }
+    return 0
+  } catch (e) {
+    console.error("getdocs2ts: " + (e instanceof Error ? e.message : e))
+    return 1
+  }
+}
+
+if (require.main === module) {
+  process.exitCode = main(process.argv.slice(2))
+}
@@ -0,0 +1,34 @@
+import {SourceLocation} from "./types"
+
+export type Severity = "error" | "warning" | "info"
+
+export interface Diagnostic {
+  severity: Severity
+  message: string
+  // the module being generated when the issue was found
+  module?: string
+  // getdocs id of the declaration the issue was found in
+  id?: string
+  loc?: SourceLocation
+}
+
+export class Diagnostics {
+  readonly list: Diagnostic[] = []
+
+  add(diagnostic: Diagnostic) {
+    const isDuplicate = this.list.some((d) =>
+      d.severity == diagnostic.severity && d.message == diagnostic.message &&
+      d.module == diagnostic.module && d.id == diagnostic.id)
+    if (!isDuplicate) this.list.push(diagnostic)
+  }
+
+  count(severity: Severity): number {
+    return this.list.filter((d) => d.severity == severity).length
+  }
+}
+
+export function formatDiagnostic(diagnostic: Diagnostic): string {
+  const loc = diagnostic.loc ? diagnostic.loc.file + ":" + diagnostic.loc.line + ": " : ""
+  const context = [diagnostic.module, diagnostic.id].filter((s) => !!s).join(" ")
+  return loc + diagnostic.severity + ": " + diagnostic.message + (context ? " (" + context + ")" : "")
+}
@@ -0,0 +1,169 @@
+import {
+  NodeOrigin, DeclarationOrigin, TypeNode, SignatureNode, MemberNode, DeclarationNode, ClassOrInterfaceNode, ClauseName,
+  ImportNode, ReexportNode, ModuleNode
+} from "./ast"
+import {Printer} from "./printer"
+import {SourceLocation} from "./types"
+
+export interface EmitOptions {
+  printer: Printer
+  // whether the declarations end up inside a `declare module` block, where
+  // they're indented one level and must not have a `declare` modifier of
+  // their own
+  ambient?: boolean
+  // when given, every declaration and member ends in a comment saying where
+  // in the sources it was documented, as formatted by this function
+  locationComment?: (loc: SourceLocation) => string
+}
+
+// Printed lines along with the node each of them came from
+export interface Emitted<Origin> {
+  lines: string[]
+  origins: Origin[]
+}
+
+function docComment(doc: string[]): string[] {
+  if (doc.length == 0) return []
+  return ([] as string[]).concat(["/**"], doc.map((line) => " " + ("* " + line.trim()).trim()), [" */"])
+}
+
+function locationComment(options: EmitOptions, node: NodeOrigin): string {
+  return options.locationComment && node.loc ? " // " + options.locationComment(node.loc) : ""
+}
+
+// `head` followed by a signature, on one line if that fits and with a
+// parameter per line otherwise
+function signatureLines(printer: Printer, depth: number, head: string, signature: SignatureNode, end: string): string[] {
+  const params = signature.params
+  const returns = signature.returns === undefined ? "" : ": " + signature.returns
+  const inline = head + signature.typeParams + "(" + params.join(", ") + ")" + returns + end
+  if (params.length == 0 || printer.fits(depth, inline.length)) return [inline]
+  return ([] as string[]).concat(
+    [head + signature.typeParams + "("],
+    printer.indent(params.map((param, i) => param + (i < params.length - 1 ? "," : ""))),
+    [")" + returns + end]
+  )
+}
+
+// `head` followed by a type, on one line if that fits and with a union
+// member per line otherwise
+function typeLines(printer: Printer, depth: number, head: string, type: TypeNode, end: string): string[] {
+  const inline = head + " " + type.join(" | ") + end
+  if (type.length < 2 || printer.fits(depth, inline.length)) return [inline]
+  return [head].concat(printer.indent(type.map((member, i) => "| " + member + (i == type.length - 1 ? end : ""))))
+}
+
+function memberLines(options: EmitOptions, member: MemberNode, depth: number): string[] {
+  const printer = options.printer
+  let lines: string[]
+  if (member.kind == "constructor") {
+    lines = signatureLines(printer, depth, "constructor", member.signature, ";")
+  } else {
+    const prefix = member.static ? "static " : ""
+    if (member.kind == "method") {
+      lines = signatureLines(printer, depth, prefix + member.name, member.signature, ";")
+    } else if (member.kind == "getter") {
+      lines = typeLines(printer, depth, prefix + "get " + member.name + "():", member.type, ";")
+    } else {
+      const modifier = prefix + (member.readonly ? "readonly " : "")
+      lines = member.type
+        ? typeLines(printer, depth, modifier + member.name + (member.optional ? "?:" : ":"), member.type, ";")
+        : [modifier + member.name + ";"]
+    }
+  }
+  lines[lines.length - 1] += locationComment(options, member)
+  return docComment(member.doc).concat(lines)
+}
+
+// The modifier of a top-level declaration. One that's exported under another
+// name is declared without being exported, and exported separately.
+function exportModifier(options: EmitOptions, node: { exported: boolean, exportAs?: string }): string {
+  if (!node.exported) return ""
+  if (node.exportAs === undefined) return "export "
+  return options.ambient ? "" : "declare "
+}
+
+function renamedExport(node: { name: string, exported: boolean, exportAs?: string }): string[] {
+  return node.exported && node.exportAs !== undefined ? [`export { ${node.name} as ${node.exportAs} };`] : []
+}
+
+function classOrInterfaceLines(options: EmitOptions, node: ClassOrInterfaceNode, depth: number): Emitted<NodeOrigin> {
+  const header = exportModifier(options, node) + node.kind + " " + node.name + node.typeParams +
+    (node.extends ? " extends " + node.extends : "") + (node.implements ? " implements " + node.implements : "")
+  const lines = docComment(node.doc).concat([header + " {" + locationComment(options, node)])
+  const origins: NodeOrigin[] = lines.map(() => node)
+  for (let member of node.members) {
+    const indented = options.printer.indent(memberLines(options, member, depth + 1))
+    // members without a location of their own are where their class is
+    const origin = { id: member.id, loc: member.loc || node.loc }
+    lines.push(...indented)
+    origins.push(...indented.map(() => origin))
+  }
+  const end = ["}"].concat(renamedExport(node))
+  return { lines: lines.concat(end), origins: origins.concat(end.map(() => node)) }
+}
+
+// Prints a top-level declaration
+export function emitDeclaration(node: DeclarationNode, options: EmitOptions): Emitted<NodeOrigin> {
+  const printer = options.printer
+  const depth = options.ambient ? 1 : 0
+  let lines: string[]
+  switch (node.kind) {
+    case "class":
+    case "interface":
+      return classOrInterfaceLines(options, node, depth)
+    case "custom":
+      return { lines: node.lines, origins: node.lines.map(() => node) }
+    case "alias":
+      lines = typeLines(printer, depth, `${exportModifier(options, node)}type ${node.name}${node.typeParams} =`, node.type, ";")
+      break
+    case "function":
+      lines = signatureLines(printer, depth, exportModifier(options, node) + "function " + node.name, node.signature, ";")
+      break
+    default:
+      const head = exportModifier(options, node) + (node.const ? "const " : "let ") + node.name
+      lines = node.type ? typeLines(printer, depth, head + ":", node.type, ";") : [head + ";"]
+  }
+  lines[lines.length - 1] += locationComment(options, node)
+  lines = docComment(node.doc).concat(lines, node.kind == "alias" ? renamedExport(node) : [])
+  return { lines, origins: lines.map(() => node) }
+}
+
+function clauseDef(name: ClauseName): string {
+  return name.as === undefined ? name.name : `${name.name} as ${name.as}`
+}
+
+function importLines(node: ImportNode): string[] {
+  return ([] as string[]).concat(
+    node.wholeModuleAs !== undefined ? [`import ${node.wholeModuleAs} = require('${node.module}');`] : [],
+    node.names.length > 0 ? [`import { ${node.names.map(clauseDef).join(', ')} } from '${node.module}';`] : []
+  )
+}
+
+function reexportLines(node: ReexportNode): string[] {
+  return ([] as string[]).concat(
+    node.all ? [`export * from '${node.module}';`] : [],
+    node.names.length > 0 ? [`export { ${node.names.map(clauseDef).join(', ')} } from '${node.module}';`] : []
+  )
+}
+
+// Prints a module: its imports and re-exports, each group followed by a
+// blank line, and then its declarations
+export function emitModule(module: ModuleNode, options: EmitOptions): Emitted<DeclarationOrigin | null> {
+  const imports = ([] as string[]).concat(...module.imports.map(importLines))
+  const reexports = ([] as string[]).concat(...module.reexports.map(reexportLines))
+  const lines = ([] as string[]).concat(
+    imports,
+    imports.length > 0 ? [""] : [],
+    reexports,
+    reexports.length > 0 ? [""] : []
+  )
+  const origins: (DeclarationOrigin | null)[] = lines.map((): DeclarationOrigin | null => null)
+  for (let node of module.declarations) {
+    const emitted = emitDeclaration(node, options)
+    const name = node.kind != "custom" && node.exportAs !== undefined ? node.exportAs : node.name
+    lines.push(...emitted.lines)
+    origins.push(...emitted.origins.map((origin) => ({ module: module.name, name, id: origin.id, loc: origin.loc })))
+  }
+  return { lines, origins }
+}
@@ -1,4 +1,7 @@
-import { ClassOrInterfaceDeclaration } from "./types"
+import { ClassOrInterfaceDeclaration, Declaration, Type, SourceLocation } from "./types"
+import { Diagnostics, Severity } from "./diagnostics"
+import { Printer, PrinterOptions } from "./printer"
+import { Plugin, resolveTypeNameWith } from "./plugins"
 
 export type Imports = { [moduleName: string]: { names: string[], wholeModuleAs?: string } }
 
@@ -6,10 +9,18 @@ export type TypeInfo = {
   replaceBy?: string,
   sourceModule?: { name: string, isWholeModule?: boolean },
   declaration?: ClassOrInterfaceDeclaration,
-  code?: string
+  code?: string,
+  // how `Object<T>` is declared when T is this type. On `Object` itself, how
+  // a bare `Object` is declared.
+  indexSignature?: IndexSignatureStyle
 }
 export type TypeInfos = { [typeName: string]: TypeInfo }
 
+// How `Object<T>` is declared: as `{ [name: string]: T }` (mutable), `{
+// readonly [name: string]: T }` (readonly), `Record<string, T>` (record) or
+// `{ [name: string]: T | undefined }` (undefined), for safe lookups
+export type IndexSignatureStyle = "mutable" | "readonly" | "record" | "undefined"
+
 export const baseTypes: TypeInfos = {
   bool: { replaceBy: 'boolean' },
   true: {},
@@ -19,19 +30,24 @@ export const baseTypes: TypeInfos = {
   any: {},
   // It's tempting to replace by `object` here, but using that type for return
   // values means that it's not possible to do arbitrary property access (e.g.
-  // `attrs.foo`). Instead, an indexed type is used to support this.
-  Object: { replaceBy: '{ [key: string]: any }' },
+  // `attrs.foo`). Instead, `typeDef` declares an index signature of `any`.
+  Object: {},
   this: {},
   null: {},
   undefined: {},
-  void: {},
-  T: {} // TODO: handle type parameters dynamically!
+  void: {}
 }
 
-function mergeTypeInfo(a: TypeInfo, b: TypeInfo, typeName: string): TypeInfo {
+// Called with a description of each conflict between two type infos. The
+// information from the first type info is kept.
+export type ConflictHandler = (message: string) => void
+
+function mergeTypeInfo(a: TypeInfo, b: TypeInfo, typeName: string, onConflict?: ConflictHandler): TypeInfo {
   function checkConflict<A>(x: A | undefined, y: A | undefined, isEq: (x: A, y: A) => boolean, name: string): A | undefined {
     if (x !== undefined && y !== undefined && !isEq(x, y)) {
-      throw new Error("conflicting '" + name + "' information for type '" + typeName + "'!")
+      const message = "conflicting '" + name + "' information for type '" + typeName + "'!"
+      if (!onConflict) throw new Error(message)
+      onConflict(message)
     }
     return (x !== undefined) ? x : y
   }
@@ -42,15 +58,17 @@ function mergeTypeInfo(a: TypeInfo, b: TypeInfo, typeName: string): TypeInfo {
   return {
     replaceBy: checkConflict(a.replaceBy, b.replaceBy, stringEq, 'replaceBy'),
     sourceModule: checkConflict(a.sourceModule, b.sourceModule, moduleEq, 'sourceModule'),
-    code: checkConflict(a.code, b.code, stringEq, 'code')
+    code: checkConflict(a.code, b.code, stringEq, 'code'),
+    indexSignature: checkConflict<IndexSignatureStyle>(a.indexSignature, b.indexSignature, stringEq, 'indexSignature')
   }
 }
 
-export function mergeTypeInfos(a: TypeInfos, b: TypeInfos): TypeInfos {
+// Throws on conflicting information unless `onConflict` is given.
+export function mergeTypeInfos(a: TypeInfos, b: TypeInfos, onConflict?: ConflictHandler): TypeInfos {
   const res = {}
   for (let typeName in a) {
     if (b[typeName]) {
-      res[typeName] = mergeTypeInfo(a[typeName], b[typeName], typeName)
+      res[typeName] = mergeTypeInfo(a[typeName], b[typeName], typeName, onConflict)
     } else {
       res[typeName] = a[typeName]
     }
@@ -63,17 +81,115 @@ export function mergeTypeInfos(a: TypeInfos, b: TypeInfos): TypeInfos {
   return res
 }
 
+// Finds the configured module a short name refers to, as `model` refers to
+// `prosemirror-model` in getdocs links such as `#model.Node`.
+export function findModuleByPrefix(prefix: string, moduleNames: string[]): string | undefined {
+  for (let name of moduleNames) {
+    if (name == prefix) return name
+  }
+  for (let name of moduleNames) {
+    if (name.slice(-(prefix.length + 1)) == "-" + prefix) return name
+  }
+  return undefined
+}
+
+// The getdocs ids declared by each module
+export type IdIndex = { [moduleName: string]: { [id: string]: Declaration } }
+
+export interface GenEnvOptions {
+  // collects the issues found while generating; by default they're dropped
+  diagnostics?: Diagnostics
+  // ids that links in descriptions (`[text](#id)`) can point to
+  links?: IdIndex
+  // whether the declarations end up inside a `declare module` block, where
+  // they must not have a `declare` modifier of their own
+  ambient?: boolean
+  // how getters of classes are declared: as `readonly` properties (the
+  // default) or as `get` accessors, which need TypeScript 3.6 or later
+  getters?: GetterStyle
+  // how index signatures are declared unless the type infos say otherwise
+  indexSignatures?: IndexSignatureStyle
+  // indentation, line endings, line width and array style
+  printer?: PrinterOptions
+  // plugins whose `resolveTypeName` hooks run before the type infos are
+  // consulted
+  plugins?: Plugin[]
+}
+
+export type GetterStyle = "readonly" | "accessor"
+
 export class GenEnv {
   readonly imports: Imports
+  readonly diagnostics: Diagnostics
+  readonly ambient: boolean
+  readonly getters: GetterStyle
+  readonly printer: Printer
+  private indexSignatures: IndexSignatureStyle
   private currModuleName: string
   private typeInfos: TypeInfos
+  private links: IdIndex
+  private plugins: Plugin[]
+  // names of the type parameters in scope, innermost generic last
+  private typeParamScopes: string[][] = []
+  // the declarations being generated, innermost last
+  private declarations: { id?: string, loc?: SourceLocation }[] = []
 
-  private static warnedAbout: { [name: string]: true } = {}
-
-  constructor(currModuleName: string, imports: Imports, typeInfos: TypeInfos) {
+  constructor(currModuleName: string, imports: Imports, typeInfos: TypeInfos, options: GenEnvOptions = {}) {
     this.currModuleName = currModuleName
     this.imports = imports
     this.typeInfos = typeInfos
+    this.diagnostics = options.diagnostics || new Diagnostics()
+    this.links = options.links || {}
+    this.ambient = !!options.ambient
+    this.getters = options.getters || "readonly"
+    this.indexSignatures = options.indexSignatures || "mutable"
+    this.printer = new Printer(options.printer)
+    this.plugins = options.plugins || []
+  }
+
+  // Runs `f` with `decl` as the declaration that diagnostics are reported for.
+  withDeclaration<A>(decl: { id?: string, loc?: SourceLocation }, f: () => A): A {
+    this.declarations.push(decl)
+    try {
+      return f()
+    } finally {
+      this.declarations.pop()
+    }
+  }
+
+  report(severity: Severity, message: string) {
+    let id: string | undefined, loc: SourceLocation | undefined
+    for (let i = this.declarations.length - 1; i >= 0; i--) {
+      const decl = this.declarations[i]
+      if (id === undefined) id = decl.id
+      if (loc === undefined) loc = decl.loc
+    }
+    this.diagnostics.add({ severity, message, module: this.currModuleName, id, loc })
+  }
+
+  // Resolves the target of a getdocs link (without the leading `#`) to a
+  // TSDoc declaration reference and the name it refers to within its module.
+  // The target can be an id in the current module or an id prefixed by the
+  // short name of another module, which is referenced as `module#Name`.
+  // References within the current module use the name a type is declared as,
+  // which differs from the exported one when its type info replaces it.
+  resolveLink(target: string): { reference: string, name: string } | undefined {
+    const dot = target.indexOf(".")
+    const moduleName = dot > -1 ? findModuleByPrefix(target.slice(0, dot), Object.keys(this.links)) : undefined
+    if (moduleName && this.links[moduleName][target.slice(dot + 1)]) {
+      const name = target.slice(dot + 1).replace(/\^/g, ".")
+      return { reference: moduleName == this.currModuleName ? this.localReference(name) : moduleName + "#" + name, name }
+    } else if (this.links[this.currModuleName] && this.links[this.currModuleName][target]) {
+      const name = target.replace(/\^/g, ".")
+      return { reference: this.localReference(name), name }
+    }
+    return undefined
+  }
+
+  private localReference(name: string): string {
+    const [typeName, ...rest] = name.split(".")
+    const replacement = this.replacementFor(typeName)
+    return [typeof replacement == "string" ? replacement : typeName].concat(rest).join(".")
   }
 
   customCodeFor(rawName: string): string | undefined {
@@ -81,12 +197,43 @@ export class GenEnv {
     return typeInfo && typeInfo.code
   }
 
+  replacementFor(rawName: string): string | undefined {
+    const typeInfo = this.typeInfos[rawName]
+    return typeInfo && typeInfo.replaceBy
+  }
+
+  // The style of `Object<T>` for a value type with the given name, or of a
+  // bare `Object` for `Object` itself
+  indexSignatureStyle(rawName: string): IndexSignatureStyle {
+    const typeInfo = this.typeInfos[rawName]
+    return (typeInfo && typeInfo.indexSignature) || this.indexSignatures
+  }
+
   getDeclaration(rawName: string): undefined | ClassOrInterfaceDeclaration {
     const typeInfo = this.typeInfos[rawName]
     return typeInfo && typeInfo.declaration
   }
 
+  // Runs `f` with the given type parameters in scope.
+  withTypeParams<A>(typeParams: Type[] | undefined, f: () => A): A {
+    if (!typeParams || typeParams.length == 0) return f()
+    this.typeParamScopes.push(typeParams.map((typeParam) => typeParam.type))
+    try {
+      return f()
+    } finally {
+      this.typeParamScopes.pop()
+    }
+  }
+
+  isTypeParamInScope(rawName: string): boolean {
+    return this.typeParamScopes.some((scope) => scope.indexOf(rawName) > -1)
+  }
+
   resolveTypeName(rawName: string): string {
+    // type parameters shadow other types and are never imported
+    if (this.isTypeParamInScope(rawName)) return rawName
+    const resolved = resolveTypeNameWith(this.plugins, this.currModuleName, rawName)
+    if (resolved !== undefined) return resolved
     const typeInfo = this.typeInfos[rawName]
     if (typeInfo) {
       const name = typeof typeInfo.replaceBy == 'string' ? typeInfo.replaceBy : rawName
@@ -101,10 +248,7 @@ export class GenEnv {
       }
       return name
     }
-    if (!GenEnv.warnedAbout[rawName]) {
-      console.log("unknown type '" + rawName + "'!")
-      GenEnv.warnedAbout[rawName] = true
-    }
+    this.report("warning", "unknown type '" + rawName + "'")
     return rawName
   }
 }
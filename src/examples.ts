@@ -0,0 +1,74 @@
+import {ModuleContents, SourceLocation} from "./types"
+
+// A fenced code block from a description
+export interface Example {
+  // getdocs id of the declaration it's documented on
+  id: string
+  code: string
+  loc?: SourceLocation
+}
+
+// Code blocks that aren't marked as being in some other language
+const exampleLanguages = ["", "js", "javascript", "ts", "typescript"]
+
+// The code blocks in the descriptions of all of a module's declarations,
+// including those of members, in the order getdocs found them.
+export function extractExamples(contents: ModuleContents): Example[] {
+  const examples: Example[] = []
+  const all = contents.all || {}
+  for (let id in all) {
+    const decl: { description?: string, loc?: SourceLocation } = all[id]
+    if (!decl.description) continue
+    const re = /^([ \t]*)```[ \t]*(\w*)[ \t]*\n([\s\S]*?)^[ \t]*```/gm
+    let match: RegExpExecArray | null
+    while (match = re.exec(decl.description)) {
+      if (exampleLanguages.indexOf(match[2].toLowerCase()) == -1) continue
+      // the code is indented as far as its fence
+      const indent = match[1]
+      const lines = match[3].replace(/\s+$/, "").split("\n")
+      const code = lines.map((line) => line.slice(0, indent.length) == indent ? line.slice(indent.length) : line.trim()).join("\n")
+      examples.push({ id, code, loc: decl.loc })
+    }
+  }
+  return examples
+}
+
+// The import declarations at the start of a line of an example, which may
+// span several lines
+const importDecl = /^import\b[^;]*?(['"])([^'"]*)\1[ \t]*;?[ \t]*$/gm
+
+// A test file that imports everything the module exports and then has each
+// example in a block of its own, so that their variables don't clash. Imports
+// in examples can't go in a block, so they're moved to the top, leaving out
+// the ones from the module itself and repeated ones, which are compared with
+// their spacing and quotes normalized. `location` formats the source location
+// each example is marked with.
+export function examplesFile(
+  moduleName: string,
+  names: string[],
+  examples: Example[],
+  location: (loc: SourceLocation) => string = (loc) => loc.file + ":" + loc.line
+): string {
+  const imports: string[] = []
+  const blocks: string[][] = examples.map((example) => {
+    const code = example.code.replace(importDecl, (decl: string, _: string, source: string) => {
+      const normalized = decl.trim().replace(/\s+/g, " ").replace(/\{ ?/g, "{ ").replace(/ ?\}/g, " }").replace(/"/g, "'")
+        .replace(/;?$/, ";")
+      if (source != moduleName && imports.indexOf(normalized) == -1) imports.push(normalized)
+      return ""
+    }).replace(/^\s*\n/, "")
+    return [
+      "",
+      "// " + example.id + (example.loc ? " (" + location(example.loc) + ")" : ""),
+      "{",
+      ...code.split("\n").map((line) => line.trim() == "" ? "" : "  " + line),
+      "}"
+    ]
+  })
+  const lines = [
+    `// Examples from the documentation of ${moduleName}, checked against its`,
+    "// declarations.",
+    names.length > 0 ? `import { ${names.join(", ")} } from '${moduleName}';` : `import '${moduleName}';`
+  ]
+  return lines.concat(imports, ...blocks).join("\n") + "\n"
+}
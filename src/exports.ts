@@ -1,5 +1,5 @@
 import {TypeInfos} from "./env"
-import {isClassOrInterfaceDeclaration, ModuleContents} from "./types"
+import {isClassOrInterfaceDeclaration, isTypeAlias, ModuleContents, Reexport} from "./types"
 
 export function exportedTypeInfos(moduleName: string, moduleContents: ModuleContents) {
   const typeInfos: TypeInfos = {}
@@ -13,5 +13,60 @@ export function exportedTypeInfos(moduleName: string, moduleContents: ModuleCont
       }
     }
   }
+  const items = moduleContents.items || {}
+  for (let name in items) {
+    if (isTypeAlias(items[name])) {
+      typeInfos[name] = { sourceModule: { name: moduleName } }
+    }
+  }
   return typeInfos
-}
\ No newline at end of file
+}
+
+// A program as acorn parses it, as far as the gathering looks at it
+export interface ProgramNode {
+  body: StatementNode[]
+}
+
+export interface StatementNode {
+  type: string
+  start: number
+  end: number
+  source?: { value: string } | null
+  specifiers?: { local: { name: string }, exported: { name: string } }[]
+}
+
+// Finds the `export { ... } from '...'` and `export * from '...'` statements
+// of a source file.
+export function findReexports(ast: ProgramNode): Reexport[] {
+  const reexports: Reexport[] = []
+  for (let node of ast.body) {
+    if (!node.source) continue
+    const module = node.source.value
+    if (node.type == "ExportAllDeclaration") {
+      reexports.push({ module, name: "*" })
+    } else if (node.type == "ExportNamedDeclaration") {
+      for (let specifier of node.specifiers || []) {
+        const name = specifier.local.name, exportedAs = specifier.exported.name
+        reexports.push(exportedAs != name ? { module, name, exportedAs } : { module, name })
+      }
+    }
+  }
+  return reexports
+}
+
+// Only keeps the re-exports from other configured modules and leaves out the
+// items they export, since those are declared by the module that owns them.
+export function withoutReexports(moduleName: string, moduleNames: string[], contents: ModuleContents): ModuleContents {
+  const reexports = (contents.reexports || []).filter((reexport) =>
+    reexport.module != moduleName && moduleNames.indexOf(reexport.module) > -1)
+  const names = reexports.map((reexport) => reexport.exportedAs || reexport.name)
+  const ownItems = contents.items || {}, ownAll = contents.all || {}
+  const items = Object.create(null), all = Object.create(null)
+  for (let name in ownItems) {
+    if (names.indexOf(name) == -1) items[name] = ownItems[name]
+  }
+  for (let id in ownAll) {
+    if (names.indexOf(id.split(/[.^]/)[0]) == -1) all[id] = ownAll[id]
+  }
+  return { items, all, reexports }
+}
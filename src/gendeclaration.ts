@@ -1,18 +1,58 @@
 import {GenEnv} from "./env"
-import {FunctionType, isFunction, isOther, Declaration, ClassOrInterfaceDeclaration, OtherDeclaration, isClassOrInterfaceDeclaration, Type} from "./types";
-import { typeDef, functionParamsDef, functionReturnDef, unionWith, nullType, undefinedType } from "./gentype";
+import {
+  FunctionType, isFunction, isOther, isGetter, isReadonly, normalizeOverloads, Declaration, ClassOrInterfaceDeclaration,
+  OtherDeclaration, StatusTags, isClassOrInterfaceDeclaration, isTypeAlias, taggedTypeParams, Type
+} from "./types";
+import {statusDocTags} from "./tags";
+import {
+  typeDef, typeParamsDef, paramNames, functionParamDefs, functionSignatureNode, unionMemberDefs, unionWith, nullType,
+  undefinedType
+} from "./gentype";
+import {MemberNode, DeclarationNode, ClassOrInterfaceNode, AliasNode, FunctionNode, VariableNode} from "./ast";
+import {emitDeclaration} from "./emit";
 
-function functionDeclarationDef(env: GenEnv, item: FunctionType): string {
-  return functionParamsDef(env, item.params || []) + ": " + functionReturnDef(env, item.returns)
+// Rewrites getdocs links such as [`Node`](#model.Node) to `{@link Node}`.
+function resolveLinks(env: GenEnv, text: string): string {
+  return text.replace(/\[([^\]]*)\]\(#([^)\s]+)\)/g, (link: string, linkText: string, target: string) => {
+    const resolved = env.resolveLink(target)
+    if (!resolved) {
+      env.report("warning", "unresolved link to '#" + target + "'")
+      return link
+    }
+    const label = linkText.replace(/^`(.*)`$/, "$1")
+    return label == resolved.name || label == "" ? `{@link ${resolved.reference}}` : `{@link ${resolved.reference} | ${label}}`
+  })
+}
+
+// The lines of a doc comment with the description and the block tags
+function docLines(env: GenEnv, comment?: string, tags: string[] = []): string[] {
+  if (comment == undefined && tags.length == 0) return []
+  const lines = comment == undefined ? [] : resolveLinks(env, comment.trim()).split('\n')
+  if (lines.length > 0 && tags.length > 0) lines.push('')
+  return lines.concat(tags.map((tag) => resolveLinks(env, tag)))
+}
+
+// A block tag such as `@param name description`, continuing the description
+// on the following lines.
+function jsDocTag(tag: string, description: string): string[] {
+  const lines = description.trim().split('\n')
+  return [tag + " " + lines[0].trim()].concat(lines.slice(1))
+}
+
+// `@param` and `@returns` tags for the documented parameters and return value.
+function functionDocTags(type: FunctionType, isConstructor: boolean): string[] {
+  const params = type.params || []
+  const names = paramNames(params)
+  const tags: string[][] = params.map((param, i) =>
+    param.description ? jsDocTag("@param " + names[i], param.description) : [])
+  if (!isConstructor && type.returns && type.returns.description) {
+    tags.push(jsDocTag("@returns", type.returns.description))
+  }
+  return ([] as string[]).concat(...tags)
 }
 
-function jsDocComment(env: GenEnv, comment?: string): string[] {
-  if (comment == undefined) return []
-  return ([] as string[]).concat(
-    ["/**"],
-    comment.trim().split('\n').map((line) => " " + ("* " + line.trim()).trim()),
-    [" */"]
-  )
+function isConstructorDecl(type: OtherDeclaration): boolean {
+  return typeof type.id == "string" && /\.constructor$/.test(type.id)
 }
 
 function unionWithNull(type: Type): Type {
@@ -20,107 +60,192 @@ function unionWithNull(type: Type): Type {
   return unionWith(type, nullType);
 }
 
-function miscDefBody(
-  env: GenEnv,
-  type: OtherDeclaration & { optional?: boolean },
-  name: string,
-  options: { isInlineProp: boolean }
-): string {
-  if (isFunction(type) && !type.optional) {
-    const isConstructor = typeof type.id == "string" && /\.constructor$/.test(type.id);
-    if (isConstructor) {
-      return "constructor" + functionParamsDef(env, type.params || []) + ";"
-    } else if (options.isInlineProp) {
-      return `${name}${functionDeclarationDef(env, type)};`
-    } else {
-      return `function ${name}${functionDeclarationDef(env, type)}`
-    }
-  } else if (options.isInlineProp) {
-    if (type.type) {
-      if (type.optional) {
-        return name + "?: " + typeDef(env, unionWithNull(type)) + ";"
-      } else {
-        return name + ": " + typeDef(env, type) + ";"
-      }
-    } else {
-      return name + ";"
-    }
-  } else {
-    return "let " + name +
-      (type.type ? ": " + typeDef(env, type.optional ? unionWith(type, nullType, undefinedType) : type) : "")
-  }
+type MemberOptions = { isStatic?: boolean, accessors?: boolean }
+
+// The status tags of overloaded functions apply to every signature
+function statusOf(type: OtherDeclaration): StatusTags {
+  return { $deprecated: type.$deprecated, $internal: type.$internal, $experimental: type.$experimental }
 }
 
-function miscDef(
-  env: GenEnv,
-  type: OtherDeclaration & { optional?: boolean },
-  name: string,
-  options: { isInlineProp: boolean, prefix?: string }
-): string[] {
+// A function declaration with the type parameters its `#typeParams` tag
+// names, if it has no others
+function withTaggedTypeParams(decl: OtherDeclaration & { optional?: boolean }): OtherDeclaration & { optional?: boolean } {
+  if (!isFunction(decl) || decl.typeParams || !decl.$typeParams) return decl
+  return Object.assign({}, decl, { typeParams: taggedTypeParams(decl) })
+}
+
+// The declarations of the signatures of an overloaded function, each with
+// its own description, or null if `decl` isn't an overloaded function that
+// can be declared once per signature. A signature's description is the part
+// of the function's description before its first `@overload` paragraph,
+// followed by the signature's own `@overload` paragraph, the first one
+// belonging to the first signature, and so on.
+function signatureDecls(env: GenEnv, decl: OtherDeclaration & { optional?: boolean }): OtherDeclaration[] | null {
+  const signatures = isFunction(decl) ? decl.signatures : undefined
+  if (decl.$overloads && !signatures) {
+    env.withDeclaration(decl, () => env.report("warning", "'#overloads' needs a union of several function types"))
+  }
+  if (!signatures || decl.optional || isReadonly(decl)) return null
+  const sections = (decl.description || "").split(/^@overload\b[ \t]*/m)
+  const shared = sections[0].trim(), own = sections.slice(1).map((section) => section.trim())
+  if (own.length > 0 && own.length != signatures.length) {
+    env.withDeclaration(decl, () => env.report("warning", `${own.length} '@overload' paragraphs for ${signatures.length} signatures`))
+  }
+  return signatures.map((signature, i) => Object.assign({}, signature, statusOf(decl), {
+    typeParams: signature.typeParams || (isFunction(decl) ? decl.typeParams : undefined),
+    id: decl.id,
+    loc: decl.loc,
+    description: signature.description || [shared, own[i] || ""].filter((part) => part != "").join("\n\n") || undefined
+  }))
+}
 
-  return ([] as string[]).concat(
-    jsDocComment(env, type.description),
-    [(options.prefix || "") + miscDefBody(env, type, name, options)]
-  )
+// The members a property, static property or constructor of a class or
+// interface is declared as. Overloaded methods get a member per signature.
+function memberNodes(env: GenEnv, type: OtherDeclaration & { optional?: boolean }, name: string, options: MemberOptions): MemberNode[] {
+  const decl = withTaggedTypeParams(normalizeOverloads(type))
+  const signatures = signatureDecls(env, decl)
+  if (signatures) return ([] as MemberNode[]).concat(...signatures.map((signature) => memberNodes(env, signature, name, options)))
+  return env.withDeclaration(decl, () => {
+    const isStatic = !!options.isStatic
+    const origin = { id: decl.id, loc: decl.loc }
+    // read-only functions are declared as properties, since methods can't be
+    // read-only
+    if (isFunction(decl) && !decl.optional && !isReadonly(decl)) {
+      const doc = docLines(env, decl.description, functionDocTags(decl, isConstructorDecl(decl)).concat(statusDocTags(decl)))
+      if (isConstructorDecl(decl)) {
+        const signature = { typeParams: "", params: functionParamDefs(env, decl.params || []) }
+        return [Object.assign({ kind: "constructor" as "constructor", doc, signature }, origin)]
+      }
+      return [Object.assign({ kind: "method" as "method", doc, name, static: isStatic, signature: functionSignatureNode(env, decl) }, origin)]
+    }
+    const doc = docLines(env, decl.description, statusDocTags(decl))
+    if (options.accessors && isGetter(decl)) {
+      const type = decl.type ? unionMemberDefs(env, decl.optional ? unionWithNull(decl) : decl) : ["any"]
+      return [Object.assign({ kind: "getter" as "getter", doc, name, static: isStatic, type }, origin)]
+    }
+    const type = decl.type ? unionMemberDefs(env, decl.optional ? unionWithNull(decl) : decl) : undefined
+    return [Object.assign({
+      kind: "property" as "property", doc, name, static: isStatic, readonly: isReadonly(decl), optional: !!decl.optional, type
+    }, origin)]
+  })
+}
 
+// The functions or the variable a top-level declaration that's neither a
+// class, an interface nor a type alias is declared as. Overloaded functions
+// are declared once per signature.
+function miscNodes(env: GenEnv, type: OtherDeclaration & { optional?: boolean }, name: string, exported: boolean): (FunctionNode | VariableNode)[] {
+  const decl = withTaggedTypeParams(normalizeOverloads(type))
+  const signatures = signatureDecls(env, decl)
+  if (signatures) {
+    return ([] as (FunctionNode | VariableNode)[]).concat(...signatures.map((signature) => miscNodes(env, signature, name, exported)))
+  }
+  return env.withDeclaration(decl, () => {
+    const origin = { id: decl.id, loc: decl.loc }
+    if (isFunction(decl) && !decl.optional && !isReadonly(decl)) {
+      const doc = docLines(env, decl.description, functionDocTags(decl, false).concat(statusDocTags(decl)))
+      return [Object.assign({ kind: "function" as "function", doc, name, exported, signature: functionSignatureNode(env, decl) }, origin)]
+    }
+    const doc = docLines(env, decl.description, statusDocTags(decl))
+    const type = decl.type ? unionMemberDefs(env, decl.optional ? unionWith(decl, nullType, undefinedType) : decl) : undefined
+    return [Object.assign({ kind: "variable" as "variable", doc, name, exported, const: isReadonly(decl), type }, origin)]
+  })
 }
 
-function classOrInterfaceDef(
+function classOrInterfaceNode(
   env: GenEnv,
   decl: ClassOrInterfaceDeclaration,
   name: string,
   exportName: string | null = null,
   exportDecl: boolean = false
-): string[] {
-  const exportRenamed = typeof exportName == 'string' && exportName != name;
-
-  let extendsClause = "";
-  if (decl.extends) {
-    const extendedDeclaration = isOther(decl.extends) && env.getDeclaration(decl.extends.type)
-    if (extendedDeclaration && decl.type == "class" && extendedDeclaration.type == "interface") {
-      extendsClause = ` implements ${typeDef(env, decl.extends)}`
-      const extendedProps = extendedDeclaration.properties || {}
-      // copy declarations of all non-overwritten properties
-      for (const propName in extendedProps) {
-        decl.properties = decl.properties || {}
-        if (!decl.properties[propName]) {
-          decl.properties[propName] = extendedProps[propName]
+): ClassOrInterfaceNode {
+  // the type parameters are in scope in the extends clause and all members
+  return env.withTypeParams(decl.typeParams, () => {
+    const exportRenamed = typeof exportName == 'string' && exportName != name;
+
+    let extendsClause: string | undefined, implementsClause: string | undefined
+    let properties = decl.properties || {}
+    if (decl.extends) {
+      const extendedDeclaration = isOther(decl.extends) && env.getDeclaration(decl.extends.type)
+      if (extendedDeclaration && decl.type == "class" && extendedDeclaration.type == "interface") {
+        implementsClause = typeDef(env, decl.extends)
+        const extendedProps = extendedDeclaration.properties || {}
+        // declare all non-overwritten properties of the interface
+        const copied = Object.keys(extendedProps).filter((propName) => !properties[propName])
+        if (copied.length > 0) {
+          properties = Object.assign({}, properties)
+          for (let propName of copied) properties[propName] = extendedProps[propName]
+          env.report("info", `copied members of interface '${decl.extends.type}' into class '${name}': ${copied.join(", ")}`)
         }
+      } else {
+        extendsClause = typeDef(env, decl.extends)
       }
-    } else {
-      extendsClause = ` extends ${typeDef(env, decl.extends)}`
     }
-  }
 
-  const typeParams = decl.typeParams ? "<" + decl.typeParams.map((typeParam) => typeDef(env, typeParam)).join(", ") + ">" : ""
-  const header = decl.type + " " + name + typeParams + extendsClause
-
-  const properties = decl.properties || {}
-  const staticProperties = decl.staticProperties || {}
-  const decls = ([] as string[]).concat(
-    (decl.constructor && !(decl.constructor instanceof Function))
-      ? miscDef(env, decl.constructor, name, { isInlineProp: false })
-      : [],
-    ...Object.keys(properties).map((prop) => miscDef(env, properties[prop], prop, { isInlineProp: true })),
-    ...Object.keys(staticProperties).map((prop) => miscDef(env, staticProperties[prop], prop, { isInlineProp: true, prefix: "static " }))
-  )
-
-  return ([] as string[]).concat(
-    jsDocComment(env, decl.description),
-    [`${exportDecl ? (exportRenamed ? "declare" : "export") + " " : ""}${header} {`],
-    decls.map((s) => "  " + s),
-    ["}"],
-    exportDecl && exportRenamed ? [`export { ${name} as ${exportName} };`] : []
-  )
+    const typeParams = typeParamsDef(env, decl.typeParams)
+    const staticProperties = decl.staticProperties || {}
+    // interfaces can't declare accessors
+    const accessors = decl.type == "class" && env.getters == "accessor"
+    const members = ([] as MemberNode[]).concat(
+      (decl.constructor && !(decl.constructor instanceof Function)) ? memberNodes(env, decl.constructor, name, {}) : [],
+      ...Object.keys(properties).map((prop) => memberNodes(env, properties[prop], prop, { accessors })),
+      ...Object.keys(staticProperties).map((prop) => memberNodes(env, staticProperties[prop], prop, { accessors, isStatic: true }))
+    )
+
+    return {
+      kind: decl.type,
+      doc: docLines(env, decl.description, statusDocTags(decl)),
+      name,
+      typeParams,
+      extends: extendsClause,
+      implements: implementsClause,
+      members,
+      exported: exportDecl,
+      exportAs: exportDecl && exportRenamed ? exportName! : undefined,
+      id: decl.id,
+      loc: decl.loc
+    }
+  })
 }
 
-export function declarationDef(env: GenEnv, decl: Declaration, name: string, exportDecl: boolean = false): string[] {
-  if (isClassOrInterfaceDeclaration(decl)) {
+// `type Name<T> = ...;`, renamed like classes when the type info replaces
+// the name
+function typeAliasNode(env: GenEnv, decl: OtherDeclaration, name: string, exportDecl: boolean): AliasNode {
+  const typeParams = taggedTypeParams(decl)
+  return env.withTypeParams(typeParams, () => {
+    const localName = env.resolveTypeName(name)
+    return {
+      kind: "alias" as "alias",
+      doc: docLines(env, decl.description, statusDocTags(decl)),
+      name: localName,
+      typeParams: typeParamsDef(env, typeParams),
+      type: unionMemberDefs(env, decl),
+      exported: exportDecl,
+      exportAs: exportDecl && localName != name ? name : undefined,
+      id: decl.id,
+      loc: decl.loc
+    }
+  })
+}
+
+// The declarations a getdocs item is declared as
+export function declarationNodes(env: GenEnv, decl: Declaration, name: string, exportDecl: boolean = false): DeclarationNode[] {
+  if (isClassOrInterfaceDeclaration(decl) || isTypeAlias(decl)) {
     const customCode: string | undefined = env.customCodeFor(name)
     if (typeof customCode == 'string') {
-      return customCode.split("\n")
+      return [{ kind: "custom", name, lines: customCode.split("\n"), id: decl.id, loc: decl.loc }]
     }
-    return classOrInterfaceDef(env, decl, env.resolveTypeName(name), name, exportDecl)
   }
-  return miscDef(env, decl, name, { isInlineProp: false, prefix: exportDecl ? "export " : "" })
-}
\ No newline at end of file
+  if (isClassOrInterfaceDeclaration(decl)) {
+    return [env.withDeclaration(decl, () => classOrInterfaceNode(env, decl, env.resolveTypeName(name), name, exportDecl))]
+  }
+  if (isTypeAlias(decl)) {
+    return [env.withDeclaration(decl, () => typeAliasNode(env, decl, name, exportDecl))]
+  }
+  return miscNodes(env, decl, name, exportDecl)
+}
+
+// The lines of the declarations a getdocs item is declared as
+export function declarationDef(env: GenEnv, decl: Declaration, name: string, exportDecl: boolean = false): string[] {
+  const options = { printer: env.printer, ambient: env.ambient }
+  return ([] as string[]).concat(...declarationNodes(env, decl, name, exportDecl).map((node) => emitDeclaration(node, options).lines))
+}
@@ -0,0 +1,270 @@
+const getdocs = require("getdocs")
+// a private module of getdocs, which is why package.json pins its version
+const doccomments = require("getdocs/src/doccomments")
+
+import {ModuleContents, Declaration, Reexport, SourceLocation, isClassOrInterfaceDeclaration} from "./types"
+import {TypeInfos, IdIndex, GetterStyle, IndexSignatureStyle, mergeTypeInfos} from "./env"
+import {exportedTypeInfos, findReexports, withoutReexports, ProgramNode} from "./exports"
+import {generateModule, GeneratedModule, DeclarationOrigin} from "./genmodule";
+import {Diagnostics} from "./diagnostics";
+import {Overrides, applyOverrides, overriddenModule} from "./overrides";
+import {DependencyGraph, moduleDependencies, findCycles} from "./graph";
+import {InternalStyle, proseStatusTags, stripInternal} from "./tags";
+import {Printer, PrinterOptions} from "./printer";
+import {Plugin, applyGathered, declarationTransform, applyRendered} from "./plugins";
+import {GeneratedFile, moduleFileName, validateDeclarations} from "./validate";
+
+export type ModuleInput = {
+  name: string,
+  // source text by file name, gathered with getdocs
+  sources?: { [filename: string]: string },
+  // getdocs output that was already gathered; takes precedence over `sources`
+  contents?: ModuleContents,
+  header?: string
+}
+
+// What getdocs parses a source file into: its syntax tree and its doc
+// comments
+interface ParsedSource {
+  ast: ProgramNode
+  comments: { start: number, parsed: { name: string | null } }[]
+}
+
+// The names declared by a source file's top-level named doc comments, such as
+// `// Command:: (EditorState) → bool`, which document no code
+function namedTypes(parsed: ParsedSource): string[] {
+  return parsed.comments.filter((comment) => comment.parsed.name &&
+    !parsed.ast.body.some((node) => node.start <= comment.start && comment.start < node.end)
+  ).map((comment) => comment.parsed.name!)
+}
+
+export function gatherModule(sources: { [filename: string]: string }): ModuleContents {
+  const items: { [name: string]: Declaration } = Object.create(null)
+  let reexports: Reexport[] = []
+  let named: string[] = []
+  Object.keys(sources).forEach((filename) => {
+    getdocs.gather(sources[filename], {filename: filename, items: items})
+    const parsed: ParsedSource = doccomments.parse(sources[filename], {filename})
+    reexports = reexports.concat(findReexports(parsed.ast))
+    named = named.concat(namedTypes(parsed))
+  });
+  // named unions and function types are type aliases
+  for (let name of named) {
+    const item = items[name]
+    if (item && !isClassOrInterfaceDeclaration(item) && (item.type == "union" || item.type == "Function") && !item.$typedef) {
+      item.$typedef = "true"
+    }
+  }
+
+  return {
+    items: items,
+    all: gatherAll({properties: items}, Object.create(null)),
+    reexports: reexports
+  };
+}
+
+export function gatherAll(obj: any, target: { [name: string]: Declaration }): { [name: string]: Declaration } {
+  if (obj.id) target[obj.id] = obj
+  if (Object.prototype.hasOwnProperty.call(obj, "constructor")) gatherAll(obj.constructor, target)
+  if (obj.properties) for (var prop in obj.properties) gatherAll(obj.properties[prop], target)
+  if (obj.staticProperties) for (var prop in obj.staticProperties) gatherAll(obj.staticProperties[prop], target)
+  return target
+}
+
+export interface GenerateOptions {
+  // receives the issues found in all modules. Without it, conflicting type
+  // infos throw and everything else is ignored.
+  diagnostics?: Diagnostics
+  // type check the generated declarations with the TypeScript compiler,
+  // reporting its errors as diagnostics, which are required for it
+  validate?: boolean
+  // corrections for single members, applied before the declarations are
+  // generated
+  overrides?: Overrides
+  // declare getters as `readonly` properties (the default) or `get` accessors
+  getters?: GetterStyle
+  // how `Object<T>` and `Object` are declared, unless the type infos say
+  // otherwise. Defaults to a mutable index signature.
+  indexSignatures?: IndexSignatureStyle
+  // receives the modules each module depends on. Import cycles between the
+  // modules are reported as warnings either way.
+  dependencies?: DependencyGraph
+  // when given, every declaration and member ends in a comment with its
+  // source location, as formatted by this function
+  locationComments?: (moduleName: string, loc: SourceLocation) => string
+  // whether declarations tagged `#internal` or marked internal in prose are
+  // left out or kept with an `@internal` tag (the default)
+  internal?: InternalStyle
+  // receives the getdocs ids of the internal declarations that were left out
+  stripped?: StrippedDeclaration[]
+  // receives the getdocs output each module was declared from, after
+  // plugins, overrides, re-exports and stripping applied
+  contents?: { [moduleName: string]: ModuleContents }
+  // indentation, line endings, line width and array style
+  printer?: PrinterOptions
+  // hooks into gathering, building, printing and type name resolution
+  plugins?: Plugin[]
+}
+
+export interface StrippedDeclaration {
+  module: string
+  id: string
+}
+
+function generateModules(
+  modules: ModuleInput[],
+  typeInfos: TypeInfos,
+  options: GenerateOptions,
+  ambient: boolean
+): { [moduleName: string]: GeneratedModule } {
+
+  if (options.validate && !options.diagnostics) throw new Error("'validate' needs 'diagnostics' to report the compiler's errors to")
+  const diagnostics = options.diagnostics || new Diagnostics()
+  const plugins = options.plugins || []
+  const moduleNames = modules.map((module) => module.name)
+  let moduleContents: { [name: string]: ModuleContents } = Object.create(null)
+
+  for (let key in options.overrides || {}) {
+    if (!overriddenModule(key, moduleNames)) {
+      diagnostics.add({ severity: "error", message: "override '" + key + "' doesn't start with the name of a module" })
+    }
+  }
+
+  for (let module of modules) {
+    let mod = module.contents || gatherModule(module.sources || {})
+    if (plugins.length > 0) mod = applyGathered(plugins, module.name, mod)
+    const marked = proseStatusTags(mod.items || {})
+    if (marked) mod = { items: marked, all: gatherAll({properties: marked}, Object.create(null)), reexports: mod.reexports }
+    const overridden = options.overrides && applyOverrides(module.name, moduleNames, mod.items || {}, options.overrides, diagnostics)
+    if (overridden) mod = { items: overridden, all: gatherAll({properties: overridden}, Object.create(null)), reexports: mod.reexports }
+    if (mod.reexports && mod.reexports.length > 0) mod = withoutReexports(module.name, moduleNames, mod)
+    if (options.internal == "strip") {
+      const strippedIds: string[] = []
+      const items = stripInternal(mod.items || {}, strippedIds)
+      if (items) mod = { items, all: gatherAll({properties: items}, Object.create(null)), reexports: mod.reexports }
+      if (options.stripped) for (let id of strippedIds) options.stripped.push({ module: module.name, id })
+    }
+    const onConflict = options.diagnostics && ((message: string) => {
+      diagnostics.add({ severity: "error", message, module: module.name })
+    })
+    typeInfos = mergeTypeInfos(exportedTypeInfos(module.name, mod), typeInfos, onConflict)
+    moduleContents[module.name] = mod
+  }
+
+  const links: IdIndex = {}
+  for (let module of modules) links[module.name] = moduleContents[module.name].all || {}
+
+  const generated: { [moduleName: string]: GeneratedModule } = Object.create(null)
+  for (let module of modules) {
+    const format = options.locationComments
+    const result = generateModule(moduleContents[module.name], module.name, typeInfos, {
+      diagnostics, links, ambient, getters: options.getters, indexSignatures: options.indexSignatures, printer: options.printer,
+      plugins, transforms: plugins.some((plugin) => !!plugin.declaration) ? [declarationTransform(plugins)] : [],
+      locationComment: format && ((loc: SourceLocation) => format(module.name, loc))
+    })
+    generated[module.name] = plugins.length > 0 ? applyRendered(plugins, module.name, result) : result
+  }
+
+  const graph: DependencyGraph = Object.create(null)
+  for (let module of modules) {
+    graph[module.name] = moduleDependencies(generated[module.name].imports, moduleContents[module.name].reexports || [])
+  }
+  for (let cycle of findCycles(graph)) {
+    diagnostics.add({ severity: "warning", message: "import cycle: " + cycle.join(" -> ") })
+  }
+  if (options.dependencies) Object.assign(options.dependencies, graph)
+  if (options.contents) Object.assign(options.contents, moduleContents)
+
+  return generated
+
+}
+
+// Prepends a header to generated lines. The header's lines don't come from
+// any declaration.
+function withHeader(printer: Printer, header: string, lines: string[], origins: (DeclarationOrigin | null)[]): GeneratedFile {
+  const headerLines = header.split(/\r?\n/)
+  const headerOrigins: (DeclarationOrigin | null)[] = headerLines.slice(1).map(() => null)
+  return { text: headerLines.join(printer.newLine) + printer.print(lines), origins: headerOrigins.concat(origins) }
+}
+
+// Generates the declaration file for every module, keyed by module name,
+// along with the origin of each of its lines. Doesn't touch the file system.
+export function generateFiles(
+  modules: ModuleInput[],
+  typeInfos: TypeInfos,
+  options: GenerateOptions = {}
+): { [moduleName: string]: GeneratedFile } {
+
+  const generated = generateModules(modules, typeInfos, options, false)
+  const printer = new Printer(options.printer)
+  const files: { [moduleName: string]: GeneratedFile } = Object.create(null)
+  const validated: { [fileName: string]: GeneratedFile } = Object.create(null)
+  for (let module of modules) {
+    const result = generated[module.name]
+    const file = Object.assign({ module: module.name }, withHeader(printer, module.header || '', result.lines, result.origins))
+    files[module.name] = file
+    validated[moduleFileName(module.name)] = file
+  }
+
+  if (options.validate && options.diagnostics) validateDeclarations(validated, options.diagnostics)
+  return files
+
+}
+
+// Generates the declaration file contents for every module, keyed by module
+// name.
+export function generate(
+  modules: ModuleInput[],
+  typeInfos: TypeInfos,
+  options: GenerateOptions = {}
+): { [moduleName: string]: string } {
+  const files = generateFiles(modules, typeInfos, options)
+  const texts: { [moduleName: string]: string } = Object.create(null)
+  for (let moduleName in files) texts[moduleName] = files[moduleName].text
+  return texts
+}
+
+export interface BundleOptions extends GenerateOptions {
+  // prepended to the bundle; the modules' own headers aren't used
+  header?: string
+}
+
+// Generates a single ambient declaration file in which every module is
+// wrapped in a `declare module 'name' { ... }` block.
+export function generateBundle(
+  modules: ModuleInput[],
+  typeInfos: TypeInfos,
+  options: BundleOptions = {}
+): string {
+  return generateBundleFile(modules, typeInfos, options).text
+}
+
+// Like `generateBundle`, but with the origin of each line
+export function generateBundleFile(
+  modules: ModuleInput[],
+  typeInfos: TypeInfos,
+  options: BundleOptions = {}
+): GeneratedFile {
+
+  const generated = generateModules(modules, typeInfos, options, true)
+  const printer = new Printer(options.printer)
+  let lines: string[] = [], origins: (DeclarationOrigin | null)[] = []
+  modules.forEach((module, i) => {
+    const result = generated[module.name]
+    if (i > 0) {
+      lines.push('')
+      origins.push(null)
+    }
+    lines = lines.concat(
+      [`declare module '${module.name}' {`],
+      printer.indent(result.lines),
+      ['}']
+    )
+    origins = origins.concat([null], result.origins, [null])
+  })
+
+  const file = withHeader(printer, options.header || '', lines, origins)
+  if (options.validate && options.diagnostics) validateDeclarations({ "bundle.d.ts": file }, options.diagnostics)
+  return file
+
+}
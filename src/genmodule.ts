@@ -1,51 +1,104 @@
-import {isClassOrInterfaceDeclaration, ModuleContents} from "./types"
-import {GenEnv, Imports, TypeInfos, baseTypes, mergeTypeInfos} from "./env"
-import {declarationDef} from "./gendeclaration";
+import {ModuleContents, Reexport, SourceLocation} from "./types"
+import {GenEnv, GenEnvOptions, Imports, TypeInfos, baseTypes, mergeTypeInfos} from "./env"
+import {declarationNodes} from "./gendeclaration";
+import {DeclarationOrigin, DeclarationNode, ClauseName, ImportNode, ReexportNode, ModuleNode} from "./ast";
+import {emitModule} from "./emit";
 
-export default function (module: ModuleContents, name: string, typeInfos: TypeInfos): string[] {
+export {DeclarationOrigin} from "./ast"
 
-  typeInfos = mergeTypeInfos(typeInfos, baseTypes)
+export interface ModuleOptions extends GenEnvOptions {
+  // when given, every declaration and member ends in a comment saying where
+  // in the sources it was documented, as formatted by this function
+  locationComment?: (loc: SourceLocation) => string
+  // applied in order to the module's declarations before they're printed
+  transforms?: ModuleTransform[]
+}
 
-  const imports: Imports = {};
-  const items = module.items || {};
-  const env = new GenEnv(name, imports, typeInfos);
-
-  const decls: string[] = ([] as string[]).concat(
-    ...Object.keys(items).map((item, index) => {
-      const decl = items[item];
-      const lines = declarationDef(env, decl, item, true)
-      if (!isClassOrInterfaceDeclaration(decl)) {
-        lines[lines.length-1] += ";"
-      }
-      return lines
+// What transforms can use besides the declaration model
+export interface TransformContext {
+  // the name a type is declared as in the module, like `resolveTypeName` of
+  // the plugins. Types of other modules are imported.
+  importType(rawName: string): string
+}
+
+// The imports of the model a transform returns are replaced by those of the
+// types used in the module, including the ones the transform asked for with
+// `importType`
+export type ModuleTransform = (module: ModuleNode, context: TransformContext) => ModuleNode
+
+export interface GeneratedModule {
+  lines: string[]
+  // the origin of each line; null for imports and blank lines
+  origins: (DeclarationOrigin | null)[]
+  imports: Imports
+}
+
+function importNodes(imports: Imports, typeInfos: TypeInfos): ImportNode[] {
+  return Object.keys(imports).sort().map((moduleName) => {
+    const importSpec = imports[moduleName]
+    const names = importSpec.names.sort().map((rawName) => {
+      const typeInfo = typeInfos[rawName]
+      return typeInfo && typeInfo.replaceBy ? { name: rawName, as: typeInfo.replaceBy } : { name: rawName }
     })
-  )
+    return { kind: "import" as "import", module: moduleName, names, wholeModuleAs: importSpec.wholeModuleAs }
+  })
+}
 
-  function importClause(rawName: string) {
-    const typeInfo = typeInfos[rawName]
-    if (!typeInfo) return rawName
-    if (typeInfo.replaceBy) return `${rawName} as ${typeInfo.replaceBy}`
-    return rawName
+// One re-export per module re-exported from
+function reexportNodes(reexports: Reexport[]): ReexportNode[] {
+  const byModule: { [moduleName: string]: ClauseName[] } = Object.create(null)
+  const all: string[] = []
+  for (let reexport of reexports) {
+    const names = byModule[reexport.module] || (byModule[reexport.module] = [])
+    if (reexport.name == "*") {
+      if (all.indexOf(reexport.module) == -1) all.push(reexport.module)
+    } else if (!names.some((name) => name.name == reexport.name && name.as == reexport.exportedAs)) {
+      names.push(reexport.exportedAs ? { name: reexport.name, as: reexport.exportedAs } : { name: reexport.name })
+    }
   }
+  const clause = (name: ClauseName) => name.as === undefined ? name.name : name.name + " as " + name.as
+  return Object.keys(byModule).sort().map((moduleName) => ({
+    kind: "reexport" as "reexport",
+    module: moduleName,
+    names: byModule[moduleName].sort((a, b) => clause(a) < clause(b) ? -1 : clause(a) > clause(b) ? 1 : 0),
+    all: all.indexOf(moduleName) > -1
+  }))
+}
 
-  const importDecls = ([] as string[]).concat(
-    ...Object.keys(imports).sort().map((moduleName) => {
-      const importSpec = imports[moduleName]
-      const importStatements = []
-      if (typeof importSpec.wholeModuleAs == 'string') {
-        importStatements.push(`import ${importSpec.wholeModuleAs} = require('${moduleName}');`)
-      }
-      if (importSpec.names.length > 0) {
-        importStatements.push(`import { ${importSpec.names.sort().map(importClause).join(', ')} } from '${moduleName}';`)
-      }
-      return importStatements
-    })
-  )
+export default function (module: ModuleContents, name: string, typeInfos: TypeInfos, options: ModuleOptions = {}): string[] {
+  return generateModule(module, name, typeInfos, options).lines
+}
 
-  return ([] as string[]).concat(
-    importDecls,
-    importDecls.length > 0 ? [""] : [],
-    decls
+// Builds the declaration model of a module
+export function moduleNode(env: GenEnv, module: ModuleContents, name: string, typeInfos: TypeInfos): ModuleNode {
+  const items = module.items || {}
+  const declarations = ([] as DeclarationNode[]).concat(
+    ...Object.keys(items).map((item) => declarationNodes(env, items[item], item, true))
   )
+  return {
+    kind: "module",
+    name,
+    imports: importNodes(env.imports, typeInfos),
+    reexports: reexportNodes(module.reexports || []),
+    declarations
+  }
+}
+
+export function generateModule(module: ModuleContents, name: string, typeInfos: TypeInfos, options: ModuleOptions = {}): GeneratedModule {
+
+  typeInfos = mergeTypeInfos(typeInfos, baseTypes)
+
+  const imports: Imports = {};
+  const env = new GenEnv(name, imports, typeInfos, options);
+
+  let node = moduleNode(env, module, name, typeInfos)
+  const transforms = options.transforms || []
+  if (transforms.length > 0) {
+    const context = { importType: (rawName: string) => env.resolveTypeName(rawName) }
+    for (let transform of transforms) node = transform(node, context)
+    node = Object.assign({}, node, { imports: importNodes(env.imports, typeInfos) })
+  }
+  const emitted = emitModule(node, { printer: env.printer, ambient: env.ambient, locationComment: options.locationComment })
+  return { lines: emitted.lines, origins: emitted.origins, imports }
 
-}
\ No newline at end of file
+}
@@ -1,20 +1,27 @@
-import {GenEnv} from "./env"
+import {GenEnv, IndexSignatureStyle} from "./env"
 import {Type, FunctionType, ArrayType, ObjectType, Parameter, OtherType, isFunction, isArray, isOther} from "./types";
 import * as types from "./types";
+import {SignatureNode} from "./ast";
 
-export function functionParamsDef(env: GenEnv, params: Parameter[]): string {
+// The names of the parameters, making up `p1`, `p2`, ... for unnamed ones.
+export function paramNames(params: Parameter[]): string[] {
   let dummyNameCounter = 0;
-  const paramStrs = params.map((param, i) => {
+  return params.map((param) => {
+    if (param.name) return param.name
+    return params.length > 1 ? "p" + (++dummyNameCounter) : "p"
+  })
+}
+
+// Each parameter with its type, as in `a: number`
+export function functionParamDefs(env: GenEnv, params: Parameter[]): string[] {
+  const names = paramNames(params)
+  return params.map((param, i) => {
     let paramStr = '';
     if(param.rest) {
       paramStr += "..."
     }
 
-    if (param.name) paramStr += param.name
-    else {
-      paramStr += "p"
-      if(params.length > 1) paramStr += (++dummyNameCounter).toString()
-    }
+    paramStr += names[i]
     if (param.optional) {
       if (params.slice(i).filter(p => !(p.rest || p.optional)).length == 0) {
         // only optional and rest parameters follow
@@ -27,8 +34,18 @@ export function functionParamsDef(env: GenEnv, params: Parameter[]): string {
     }
     return paramStr
   })
+}
+
+export function functionParamsDef(env: GenEnv, params: Parameter[]): string {
+  return "(" + functionParamDefs(env, params).join(", ") + ")"
+}
 
-  return "("+paramStrs.join(', ')+")"
+export function typeParamsDef(env: GenEnv, typeParams: Type[] | undefined): string {
+  if (!typeParams || typeParams.length == 0) return ""
+  return "<" + typeParams.map((typeParam) => {
+    const constraint = isOther(typeParam) && typeParam.extends
+    return env.resolveTypeName(typeParam.type) + (constraint ? " extends " + typeDef(env, constraint) : "")
+  }).join(", ") + ">"
 }
 
 export function unionWith(t: Type, ...ts: Type[]): Type {
@@ -41,6 +58,24 @@ export function unionWith(t: Type, ...ts: Type[]): Type {
 export const undefinedType: Type = { type: "undefined" };
 export const nullType: Type = { type: "null" };
 export const voidType: Type = { type: "void" };
+export const anyType: Type = { type: "any" };
+
+// A function's signature, for declarations to lay out on one line or on
+// several
+export function functionSignatureNode(env: GenEnv, item: FunctionType): SignatureNode {
+  return env.withTypeParams(item.typeParams, () => ({
+    typeParams: typeParamsDef(env, item.typeParams),
+    params: functionParamDefs(env, item.params || []),
+    returns: functionReturnDef(env, item.returns)
+  }))
+}
+
+// The type parameters, parameters and return type of a function, as in
+// `<T>(a: T): T`.
+export function functionSignatureDef(env: GenEnv, item: FunctionType, returnSeparator: string = ": "): string {
+  const signature = functionSignatureNode(env, item)
+  return signature.typeParams + "(" + signature.params.join(", ") + ")" + returnSeparator + signature.returns
+}
 
 export function functionReturnDef(env: GenEnv, type: types.ReturnType | undefined): string {
   if (type) {
@@ -50,7 +85,13 @@ export function functionReturnDef(env: GenEnv, type: types.ReturnType | undefine
 }
 
 function functionDef(env: GenEnv, item: FunctionType): string {
-  return functionParamsDef(env, item.params || []) + " => " + functionReturnDef(env, item.returns);
+  return functionSignatureDef(env, item, " => ");
+}
+
+// An overloaded function type as an object type with a call signature per
+// overload
+function overloadedFunctionDef(env: GenEnv, signatures: types.FunctionSignature[]): string {
+  return "{ " + signatures.map((signature) => functionSignatureDef(env, signature)).join("; ") + " }"
 }
 
 function isSimpleType(type: Type): boolean {
@@ -60,7 +101,8 @@ function isSimpleType(type: Type): boolean {
 
 function arrayDef(env: GenEnv, item: ArrayType): string {
   const elemType = item.typeParams[0];
-  if (isSimpleType(elemType)) {
+  const style = env.printer.arrayStyle
+  if (style == "brackets" || (style == "auto" && isSimpleType(elemType))) {
     return `${typeDef(env, elemType, true)}[]`;
   } else {
     return `Array<${typeDef(env, elemType)}>`;
@@ -69,11 +111,13 @@ function arrayDef(env: GenEnv, item: ArrayType): string {
 
 function objectDef(env: GenEnv, item: ObjectType): string {
   const propStrs = Object.keys(item.properties).map((name) => {
-    const prop = item.properties[name]
+    const prop = types.normalizeOverloads(item.properties[name])
     if (prop.optional) {
       return name + "?: " + typeDef(env, unionWith(prop, nullType))
+    } else if (isFunction(prop) && prop.signatures) {
+      return prop.signatures.map((signature) => name + functionSignatureDef(env, signature)).join(", ")
     } else if (isFunction(prop)) {
-      return name + functionParamsDef(env, prop.params || []) + ": " + functionReturnDef(env, prop.returns)
+      return name + functionSignatureDef(env, prop)
     } else {
       return name + ": " + typeDef(env, prop)
     }
@@ -82,6 +126,40 @@ function objectDef(env: GenEnv, item: ObjectType): string {
   return "{ " + propStrs.join(", ") + " }"
 }
 
+function indexSignatureDef(env: GenEnv, keyName: string, valueType: Type, style: IndexSignatureStyle): string {
+  switch (style) {
+    case "readonly": return `{ readonly [${keyName}: string]: ${typeDef(env, valueType)} }`
+    case "record": return `Record<string, ${typeDef(env, valueType)}>`
+    case "undefined": return `{ [${keyName}: string]: ${typeDef(env, unionWith(valueType, undefinedType))} }`
+    default: return `{ [${keyName}: string]: ${typeDef(env, valueType)} }`
+  }
+}
+
+// getdocs reads numbers like names, as word characters separated by dots,
+// so it gives neither negative numbers nor ones starting with a dot
+function isNumberLiteral(type: string): boolean {
+  return /^\d+(\.\d+)?([eE]\d+)?$/.test(type)
+}
+
+// getdocs only reads double-quoted strings, which end at the first quote
+function isStringLiteral(type: string): boolean {
+  return /^".*"$/.test(type)
+}
+
+// Re-quotes a string singleton type, escaping its contents the way
+// `JSON.stringify` does. A trailing backslash, which escapes nothing, is kept
+// as a backslash.
+function stringLiteralDef(type: string): string {
+  const escapes: { [c: string]: string } = { n: "\n", r: "\r", t: "\t", b: "\b", f: "\f", v: "\v", "0": "\0" }
+  const value = type.slice(1, -1).replace(/\\(u\{([\da-fA-F]+)\}|u([\da-fA-F]{4})|x([\da-fA-F]{2})|[\s\S]?)/g,
+    (_: string, c: string, codePoint?: string, unit?: string, byte?: string) => {
+      const code = parseInt(codePoint || unit || byte || "", 16)
+      if (code <= 0x10ffff) return String.fromCodePoint(code)
+      return c == "" ? "\\" : escapes[c] || c
+    })
+  return JSON.stringify(value)
+}
+
 function parenthesize(doIt: boolean, str: string) {
   return doIt ? "("+str+")" : str
 }
@@ -96,6 +174,15 @@ function unionDef(env: GenEnv, typeParams: Type[], addParens: boolean = false):
   }
 }
 
+// The members of a union type, for declarations to lay out on one line or on
+// several, or just the type if it's no union of several types
+export function unionMemberDefs(env: GenEnv, type: Type): string[] {
+  if (isOther(type) && type.type == "union" && type.typeParams && type.typeParams.length > 1) {
+    return type.typeParams.map((typeParam) => typeDef(env, typeParam, true))
+  }
+  return [typeDef(env, type)]
+}
+
 function otherDef(env: GenEnv, type: OtherType): string {
   if (type.typeParams) {
     return env.resolveTypeName(type.type) +
@@ -106,7 +193,9 @@ function otherDef(env: GenEnv, type: OtherType): string {
 }
 
 export function typeDef(env: GenEnv, item: Type, addParens: boolean = false): string {
-  if (types.isFunction(item)) {
+  if (types.isFunction(item) && item.signatures) {
+    return overloadedFunctionDef(env, item.signatures)
+  } else if (types.isFunction(item)) {
     return parenthesize(addParens, functionDef(env, item))
   } else if (types.isArray(item)) {
     return arrayDef(env, item);
@@ -116,12 +205,15 @@ export function typeDef(env: GenEnv, item: Type, addParens: boolean = false): st
     return unionDef(env, item.typeParams || [], addParens)
   } else if (item.type == "Object" && item.typeParams && item.typeParams.length == 1) {
     const valueType = item.typeParams[0];
-    return "{ [name: string]: " + typeDef(env, valueType) + " }"
+    return indexSignatureDef(env, "name", valueType, env.indexSignatureStyle(valueType.type))
+  } else if (item.type == "Object" && !item.typeParams && env.replacementFor("Object") === undefined) {
+    return indexSignatureDef(env, "key", anyType, env.indexSignatureStyle("Object"))
   } else if (item.type == "constructor" && item.typeParams && item.typeParams.length == 1) {
     return "{ new(...args: any[]): " + typeDef(env, item.typeParams[0]) + " }"
-  } else if (/^\"[^\"]*\"$/.test(item.type)) {
-    // string singleton type
+  } else if (isNumberLiteral(item.type)) {
     return item.type
+  } else if (isStringLiteral(item.type)) {
+    return stringLiteralDef(item.type)
   } else {
     return otherDef(env, item)
   }
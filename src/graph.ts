@@ -0,0 +1,52 @@
+import {Imports} from "./env"
+import {Reexport} from "./types"
+
+// The modules each generated module imports from or re-exports, by name
+export type DependencyGraph = { [moduleName: string]: string[] }
+
+export function moduleDependencies(imports: Imports, reexports: Reexport[]): string[] {
+  const dependencies = Object.keys(imports)
+  for (let reexport of reexports) {
+    if (dependencies.indexOf(reexport.module) == -1) dependencies.push(reexport.module)
+  }
+  return dependencies.sort()
+}
+
+// The import cycles between the modules of the graph, each as the path from
+// its alphabetically first module back to that module. Modules that import
+// each other in several ways get a single, shortest, cycle.
+export function findCycles(graph: DependencyGraph): string[][] {
+  const cycles: string[][] = []
+  const seen: string[] = []
+  for (let start of Object.keys(graph).sort()) {
+    if (seen.indexOf(start) > -1) continue
+    const cycle = shortestPath(graph, start, start)
+    if (!cycle) continue
+    cycles.push(cycle)
+    for (let name of cycle) if (seen.indexOf(name) == -1) seen.push(name)
+  }
+  return cycles
+}
+
+// Breadth-first search from `from` to `to`, which takes at least one step
+function shortestPath(graph: DependencyGraph, from: string, to: string): string[] | null {
+  const previous: { [name: string]: string } = Object.create(null)
+  let frontier = [from]
+  while (frontier.length > 0) {
+    const next: string[] = []
+    for (let name of frontier) {
+      for (let dependency of graph[name] || []) {
+        if (dependency == to) {
+          const path = [to]
+          for (let cur = name; cur != from; cur = previous[cur]) path.unshift(cur)
+          return [from].concat(path)
+        }
+        if (dependency in previous || dependency == from) continue
+        previous[dependency] = name
+        next.push(dependency)
+      }
+    }
+    frontier = next
+  }
+  return null
+}
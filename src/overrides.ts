@@ -0,0 +1,194 @@
+const getdocs = require("getdocs")
+
+import {
+  Declaration, Property, ParameterArgs, Parameter, ReturnType, Type, ConstructorDeclaration, SourceLocation,
+  isClassOrInterfaceDeclaration, isFunction
+} from "./types"
+import {findModuleByPrefix} from "./env"
+import {Diagnostics} from "./diagnostics"
+
+// Corrections for single members, applied to the getdocs output before it is
+// turned into declarations
+export interface MemberOverride {
+  // the member's type in getdocs syntax, e.g. `(tr: Transaction)`. Adds the
+  // member when it isn't documented upstream.
+  type?: string
+  optional?: boolean
+  readonly?: boolean
+  // declares the member as a getter
+  getter?: boolean
+  description?: string
+  // leaves the member out
+  omit?: boolean
+}
+
+// Overrides keyed by getdocs id, prefixed by the module's (short) name, e.g.
+// `view.EditorView.dispatch`, `model.Node^fromJSON` for a static member or
+// `view.EditorView.dispatch^tr` for a parameter
+export type Overrides = { [id: string]: MemberOverride }
+
+type Members = { [name: string]: Property }
+
+// What an override can apply to: a member, a parameter or a return value
+type Target = Property & ParameterArgs
+
+// Where a step of an id leads. Only members can be added and omitted; for
+// parameters and return values, `kind` says which of the two it is.
+interface Slot {
+  kind?: "parameter" | "return value"
+  current: Target | undefined
+  set(target: Target): void
+  remove(): void
+}
+
+// Splits an id such as `Node.attrs` or `Node^fromJSON` into the name of the
+// item and the steps into its members. After a function, `^` leads to a
+// parameter, as in `EditorView.dispatch^tr`, or to its return value.
+function idPath(id: string): { isStatic: boolean, name: string }[] {
+  const path: { isStatic: boolean, name: string }[] = []
+  const re = /([.^]?)([^.^]+)/g
+  let match: RegExpExecArray | null
+  while (match = re.exec(id)) path.push({ isStatic: match[1] == "^", name: match[2] })
+  return path
+}
+
+// The parts of getdocs output that hold other parts, which overrides change
+interface Nested {
+  typeParams?: Type[]
+  params?: Parameter[]
+  returns?: ReturnType
+  extends?: Type
+  properties?: Members
+  staticProperties?: Members
+  'constructor'?: Function | ConstructorDeclaration
+}
+
+// A copy of getdocs' items that overrides can change without changing the
+// originals. Maps are copied without a prototype, like getdocs creates them,
+// so that they don't get the names of `Object.prototype`.
+function cloneMap<A extends Nested>(map: { [name: string]: A }): { [name: string]: A } {
+  const copy: { [name: string]: A } = Object.create(null)
+  for (let name of Object.keys(map)) copy[name] = clone(map[name])
+  return copy
+}
+
+function clone<A extends Nested>(value: A): A {
+  const copy = Object.assign({}, value)
+  const nested: Nested = copy
+  if (value.typeParams) nested.typeParams = value.typeParams.map(clone)
+  if (value.params) nested.params = value.params.map(clone)
+  if (value.returns) nested.returns = clone(value.returns)
+  if (value.extends) nested.extends = clone(value.extends)
+  if (value.properties) nested.properties = cloneMap(value.properties)
+  if (value.staticProperties) nested.staticProperties = cloneMap(value.staticProperties)
+  const constructor = Object.prototype.hasOwnProperty.call(value, "constructor") ? value.constructor : undefined
+  if (constructor && !(constructor instanceof Function)) nested.constructor = clone(constructor)
+  return copy
+}
+
+function step(node: Declaration | Target, isStatic: boolean, name: string): Slot | null {
+  if (!isStatic && name == "constructor") {
+    if (!isClassOrInterfaceDeclaration(node)) return null
+    const constructor = Object.prototype.hasOwnProperty.call(node, "constructor") ? node.constructor : undefined
+    return {
+      current: constructor instanceof Function ? undefined : constructor,
+      set: (target) => { node.constructor = target as ConstructorDeclaration },
+      remove: () => { delete node.constructor }
+    }
+  }
+  if (isStatic && isFunction(node)) {
+    if (name == "returns") {
+      const fn = node
+      return { kind: "return value", current: fn.returns, set: (target) => { fn.returns = target }, remove: () => {} }
+    }
+    const params = node.params || []
+    const index = params.map((param) => param.name).indexOf(name)
+    if (index == -1) return null
+    return { kind: "parameter", current: params[index], set: (target) => { params[index] = target }, remove: () => {} }
+  }
+  if (!isClassOrInterfaceDeclaration(node) && node.type != "Object") return null
+  const holder: { properties?: Members, staticProperties?: Members } = node
+  const key = isStatic ? "staticProperties" : "properties"
+  const members = () => holder[key] || (holder[key] = Object.create(null) as Members)
+  return {
+    current: holder[key] ? holder[key]![name] : undefined,
+    set: (target) => { members()[name] = target },
+    remove: () => { delete members()[name] }
+  }
+}
+
+function applyOverride(items: { [name: string]: Declaration }, id: string, override: MemberOverride, report: (message: string) => void) {
+  const path = idPath(id)
+  if (path.length < 2) return report("overrides can only apply to members, not to '" + id + "'")
+  let parent: Declaration | Target | undefined = items[path[0].name]
+  for (let i = 1; i < path.length - 1 && parent; i++) {
+    const slot = step(parent, path[i].isStatic, path[i].name)
+    parent = slot ? slot.current : undefined
+  }
+  const last = path[path.length - 1]
+  const slot = parent && step(parent, last.isStatic, last.name)
+  if (!slot) return report("no declaration for override '" + id + "'")
+
+  if (slot.kind && (override.omit || override.readonly !== undefined || override.getter !== undefined)) {
+    return report("'" + id + "' is a " + slot.kind + ", which can only get a type, optional and description")
+  }
+  if (override.omit) {
+    if (!slot.current) return report("can't omit '" + id + "' because it doesn't exist")
+    return slot.remove()
+  }
+
+  let member: Target
+  if (override.type) {
+    const parsed: { type: Target, end: number } = getdocs.parseType(override.type, 0, { file: "overrides", line: 0 })
+    if (parsed.end != override.type.length) return report("invalid type '" + override.type + "' for '" + id + "'")
+    const type = parsed.type
+    delete type.optional
+    // a replaced type keeps the documentation and the name
+    const kept: { description?: string, loc?: SourceLocation, name?: string, rest?: boolean } = {}
+    const current = slot.current
+    if (current) {
+      if (current.description !== undefined) kept.description = current.description
+      if (current.loc !== undefined) kept.loc = current.loc
+      if (current.name !== undefined) kept.name = current.name
+      if (current.rest !== undefined) kept.rest = current.rest
+    }
+    member = Object.assign(type, { id }, kept)
+  } else if (slot.current) {
+    member = slot.current
+  } else {
+    return report("can't add '" + id + "' without a type")
+  }
+  if (override.optional !== undefined) member.optional = override.optional
+  if (override.readonly !== undefined) member.readonly = override.readonly
+  if (override.getter !== undefined) member.getter = override.getter
+  if (override.description !== undefined) member.description = override.description
+  slot.set(member)
+}
+
+// The module an override applies to, if any
+export function overriddenModule(key: string, moduleNames: string[]): string | undefined {
+  const dot = key.indexOf(".")
+  return dot > -1 ? findModuleByPrefix(key.slice(0, dot), moduleNames) : undefined
+}
+
+// Returns the module's items with the overrides that belong to it applied, or
+// null if there are none. The items passed in are left untouched.
+export function applyOverrides(
+  moduleName: string,
+  moduleNames: string[],
+  items: { [name: string]: Declaration },
+  overrides: Overrides,
+  diagnostics: Diagnostics
+): { [name: string]: Declaration } | null {
+  const own = Object.keys(overrides).filter((key) => overriddenModule(key, moduleNames) == moduleName)
+  if (own.length == 0) return null
+
+  items = cloneMap(items)
+  for (let key of own) {
+    const id = key.slice(key.indexOf(".") + 1)
+    applyOverride(items, id, overrides[key], (message) => {
+      diagnostics.add({ severity: "error", message, module: moduleName, id })
+    })
+  }
+  return items
+}
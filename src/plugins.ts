@@ -0,0 +1,91 @@
+import {ModuleContents} from "./types"
+import {DeclarationNode} from "./ast"
+import {GeneratedModule, TransformContext, ModuleTransform} from "./genmodule"
+
+// Project-specific fixes to the generated declarations, as a plain object
+// with any of these hooks. The hooks of several plugins run in the order the
+// plugins are given. Since hooks are functions, plugins can only be given in
+// a JavaScript config, not in a JSON one.
+export interface Plugin {
+  // used in error messages
+  name?: string
+  // after a module's sources are gathered, before overrides apply. Returns
+  // the contents to use instead, if any. When watching, the contents of a
+  // module whose sources didn't change are passed again, so they should be
+  // left as they are.
+  gathered?: (moduleName: string, contents: ModuleContents) => ModuleContents | void
+  // before each top-level declaration is printed. Returns the declaration to
+  // print instead, if any, or null to leave it out. Types it adds should be
+  // named with `context.importType`, which imports them.
+  declaration?: (moduleName: string, node: DeclarationNode, context: TransformContext) => DeclarationNode | null | void
+  // after a module is printed. Returns the printed module to use instead, if
+  // any, with an origin for every line. Lines a plugin adds should have a
+  // null origin.
+  rendered?: (moduleName: string, module: GeneratedModule) => GeneratedModule | void
+  // when a type name is resolved. Returns the name to declare the type as,
+  // if any, which skips the type infos, so the type isn't imported either.
+  resolveTypeName?: (moduleName: string, rawName: string) => string | void
+}
+
+export function pluginName(plugin: Plugin, i: number): string {
+  return plugin.name || "#" + (i + 1)
+}
+
+// Runs `f` for each plugin, rethrowing errors with the plugin's name
+function eachPlugin(plugins: Plugin[], hook: string, f: (plugin: Plugin) => void) {
+  plugins.forEach((plugin, i) => {
+    try {
+      f(plugin)
+    } catch (e) {
+      throw new Error("plugin " + pluginName(plugin, i) + " failed in '" + hook + "': " + (e instanceof Error ? e.message : e))
+    }
+  })
+}
+
+export function applyGathered(plugins: Plugin[], moduleName: string, contents: ModuleContents): ModuleContents {
+  eachPlugin(plugins, "gathered", (plugin) => {
+    const result = plugin.gathered && plugin.gathered(moduleName, contents)
+    if (result) contents = result
+  })
+  return contents
+}
+
+// The `declaration` hooks as a module transform
+export function declarationTransform(plugins: Plugin[]): ModuleTransform {
+  return (module, context) => {
+    const declarations: DeclarationNode[] = []
+    for (let node of module.declarations) {
+      let current: DeclarationNode | null = node
+      eachPlugin(plugins, "declaration", (plugin) => {
+        if (!current || !plugin.declaration) return
+        const result = plugin.declaration(module.name, current, context)
+        if (result !== undefined) current = result
+      })
+      if (current) declarations.push(current)
+    }
+    return Object.assign({}, module, { declarations })
+  }
+}
+
+export function applyRendered(plugins: Plugin[], moduleName: string, module: GeneratedModule): GeneratedModule {
+  eachPlugin(plugins, "rendered", (plugin) => {
+    const result = plugin.rendered && plugin.rendered(moduleName, module)
+    if (!result) return
+    if (result.lines.length != result.origins.length) {
+      throw new Error("returned " + result.lines.length + " lines but " + result.origins.length + " origins")
+    }
+    module = result
+  })
+  return module
+}
+
+// The name the first plugin that resolves `rawName` resolves it to
+export function resolveTypeNameWith(plugins: Plugin[], moduleName: string, rawName: string): string | undefined {
+  let resolved: string | undefined
+  eachPlugin(plugins, "resolveTypeName", (plugin) => {
+    if (resolved !== undefined || !plugin.resolveTypeName) return
+    const result = plugin.resolveTypeName(moduleName, rawName)
+    if (typeof result == "string") resolved = result
+  })
+  return resolved
+}
@@ -0,0 +1,49 @@
+// How `Array` types are written: `T[]` for simple element types and
+// `Array<T>` otherwise ("auto", the default), or always one of the two
+export type ArrayStyle = "auto" | "brackets" | "generic"
+
+export type LineEnding = "lf" | "crlf"
+
+// Formatting choices for the generated declarations
+export interface PrinterOptions {
+  // what each level of nesting is indented by, e.g. "\t" (default two spaces)
+  indent?: string
+  lineEnding?: LineEnding
+  // wrap parameter lists and union types of declarations whose line would be
+  // longer than this. Tabs count as four columns. No wrapping by default.
+  lineWidth?: number
+  arrayStyle?: ArrayStyle
+}
+
+export class Printer {
+  readonly indentUnit: string
+  readonly newLine: string
+  readonly lineWidth: number
+  readonly arrayStyle: ArrayStyle
+
+  constructor(options: PrinterOptions = {}) {
+    const indent = options.indent === undefined ? "  " : options.indent
+    if (!/^[ \t]+$/.test(indent)) throw new Error("indent must consist of spaces or tabs, not " + JSON.stringify(indent))
+    this.indentUnit = indent
+    this.newLine = options.lineEnding == "crlf" ? "\r\n" : "\n"
+    this.lineWidth = options.lineWidth || Infinity
+    this.arrayStyle = options.arrayStyle || "auto"
+  }
+
+  // Indents every line one level, leaving blank lines empty
+  indent(lines: string[]): string[] {
+    return lines.map((line) => line == "" ? line : this.indentUnit + line)
+  }
+
+  // Whether a line of `length` characters fits when it's indented `depth`
+  // levels
+  fits(depth: number, length: number): boolean {
+    const indentWidth = this.indentUnit.replace(/\t/g, "    ").length
+    return depth * indentWidth + length <= this.lineWidth
+  }
+
+  // The lines as file contents, each ending in a line break
+  print(lines: string[]): string {
+    return lines.map((line) => line + this.newLine).join("")
+  }
+}
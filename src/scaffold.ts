@@ -0,0 +1,90 @@
+import {ModuleContents} from "./types"
+import {withoutReexports} from "./exports"
+
+// What goes into the header of a DefinitelyTyped package
+export interface PackageInfo {
+  // the version of the library, of which only major and minor are used
+  version: string
+  // the library's project URL
+  project: string
+  authors: { name: string, url: string }[]
+  // the minimum TypeScript version the declarations need, if any
+  typeScriptVersion?: string
+}
+
+// The header DefinitelyTyped expects at the top of a package's index.d.ts
+export function packageHeader(moduleName: string, info: PackageInfo): string {
+  const version = info.version.split(".").slice(0, 2).join(".")
+  const authors = info.authors.map((author, i) =>
+    (i == 0 ? "// Definitions by: " : "//                 ") + author.name + " <" + author.url + ">")
+  return ([] as string[]).concat(
+    ["// Type definitions for " + moduleName + " " + version],
+    ["// Project: " + info.project],
+    authors,
+    ["// Definitions: https://github.com/DefinitelyTyped/DefinitelyTyped"],
+    info.typeScriptVersion ? ["// TypeScript Version: " + info.typeScriptVersion] : [],
+    ["", ""]
+  ).join("\n")
+}
+
+// The names a module's declarations export, including re-exports from other
+// configured modules, except for the ones `export * from` re-exports, which
+// aren't known by name
+export function exportedNames(moduleName: string, moduleNames: string[], contents: ModuleContents): string[] {
+  const own = withoutReexports(moduleName, moduleNames, contents)
+  return Object.keys(own.items || {})
+    .concat((own.reexports || []).filter((reexport) => reexport.name != "*").map((reexport) => reexport.exportedAs || reexport.name))
+    .sort()
+}
+
+// The parts of a DefinitelyTyped package's tsconfig.json that are scaffolded
+interface TsConfig {
+  compilerOptions: {
+    module: string
+    lib: string[]
+    noImplicitAny: boolean
+    noImplicitThis: boolean
+    strictNullChecks: boolean
+    baseUrl: string
+    typeRoots: string[]
+    types: string[]
+    noEmit: boolean
+    forceConsistentCasingInFileNames: boolean
+  }
+  files: string[]
+}
+
+function tsconfig(moduleName: string): TsConfig {
+  return {
+    compilerOptions: {
+      module: "commonjs",
+      lib: ["es6", "dom"],
+      noImplicitAny: true,
+      noImplicitThis: true,
+      strictNullChecks: true,
+      baseUrl: "../",
+      typeRoots: ["../"],
+      types: [],
+      noEmit: true,
+      forceConsistentCasingInFileNames: true
+    },
+    files: ["index.d.ts", moduleName + "-tests.ts"]
+  }
+}
+
+// A test that imports everything the package exports, so that the DT
+// harness type checks all of it
+function testStub(moduleName: string, names: string[]): string {
+  if (names.length == 0) return `import '${moduleName}';\n`
+  return "import {\n" + names.map((name) => "  " + name).join(",\n") + `\n} from '${moduleName}';\n`
+}
+
+// The files besides index.d.ts that make up a DefinitelyTyped package, by
+// file name relative to the package's directory
+export function scaffoldFiles(moduleName: string, names: string[]): { [fileName: string]: string } {
+  const files: { [fileName: string]: string } = Object.create(null)
+  files["tsconfig.json"] = JSON.stringify(tsconfig(moduleName), null, 4) + "\n"
+  files["tslint.json"] = JSON.stringify({ extends: "dtslint/dt.json" }, null, 4) + "\n"
+  files[moduleName + "-tests.ts"] = testStub(moduleName, names)
+  return files
+}
@@ -0,0 +1,53 @@
+const path = require("path")
+
+import {GeneratedFile} from "./validate"
+
+const base64 = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/"
+
+// Encodes a number as a base64 VLQ, as used by source map mappings
+export function vlq(value: number): string {
+  let rest = value < 0 ? (-value << 1) | 1 : value << 1
+  let result = ""
+  do {
+    let digit = rest & 31
+    rest >>>= 5
+    if (rest > 0) digit |= 32
+    result += base64.charAt(digit)
+  } while (rest > 0)
+  return result
+}
+
+// A version 3 source map for a declaration file that is written to
+// `outFile`, mapping the start of every line that came from a documented
+// declaration to the doc comment getdocs found it at. Source paths are
+// relative to the map, which is written next to the declaration file.
+export function declarationMap(file: GeneratedFile, outFile: string): string {
+  const dir = path.dirname(outFile)
+  const sources: string[] = []
+  let prevSource = 0, prevLine = 0, prevColumn = 0
+  const mappings = file.origins.map((origin) => {
+    if (!origin || !origin.loc) return ""
+    const source = path.relative(dir, origin.loc.file).split(path.sep).join("/")
+    if (sources.indexOf(source) == -1) sources.push(source)
+    const sourceIndex = sources.indexOf(source)
+    const line = origin.loc.line - 1, column = origin.loc.column || 0
+    const segment = vlq(0) + vlq(sourceIndex - prevSource) + vlq(line - prevLine) + vlq(column - prevColumn)
+    prevSource = sourceIndex
+    prevLine = line
+    prevColumn = column
+    return segment
+  })
+  return JSON.stringify({
+    version: 3,
+    file: path.basename(outFile),
+    sourceRoot: "",
+    sources,
+    names: [],
+    mappings: mappings.join(";")
+  }) + "\n"
+}
+
+// The comment that links a declaration file to its map
+export function sourceMappingURL(outFile: string, newLine: string = "\n"): string {
+  return "//# sourceMappingURL=" + path.basename(outFile) + ".map" + newLine
+}
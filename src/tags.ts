@@ -0,0 +1,122 @@
+import {
+  Declaration, StatusTags, Property, Parameter, ReturnType, Type, FunctionSignature, ConstructorDeclaration
+} from "./types"
+
+// What happens to declarations and members tagged `#internal` or marked
+// internal in prose: they're left out, or kept with an `@internal` tag, which
+// the compiler's `stripInternal` option understands
+export type InternalStyle = "strip" | "mark"
+
+function tag(name: string, value: string | undefined): string[] {
+  if (value === undefined) return []
+  return [value == "true" ? name : name + " " + value]
+}
+
+// The TSDoc tags for the status tags of a declaration
+export function statusDocTags(decl: StatusTags): string[] {
+  return ([] as string[]).concat(
+    tag("@deprecated", decl.$deprecated),
+    tag("@experimental", decl.$experimental),
+    tag("@internal", decl.$internal)
+  )
+}
+
+// A declaration or a member of one
+type Member = StatusTags & { id?: string, description?: string }
+
+type Members<M> = { [name: string]: M }
+
+// What members and other declarations can be nested in: classes, interfaces
+// and object types, and the parameters, return types and type arguments
+// those may appear in
+interface Nested {
+  properties?: Members<Property>
+  staticProperties?: Members<Property>
+  'constructor'?: Function | ConstructorDeclaration
+  params?: Parameter[]
+  returns?: ReturnType
+  typeParams?: Type[]
+  signatures?: FunctionSignature[]
+}
+
+// Returns the member to use instead of `member`, or null to leave it out
+type MemberMapper = <M extends Member>(member: M, name: string) => M | null
+
+function ownConstructor(node: Nested): ConstructorDeclaration | undefined {
+  const constructor = Object.prototype.hasOwnProperty.call(node, "constructor") ? node.constructor : undefined
+  return constructor instanceof Function ? undefined : constructor
+}
+
+function mapMembers<M extends Member & Nested>(members: Members<M>, f: MemberMapper): Members<M> {
+  const result: Members<M> = Object.create(null)
+  for (let name in members) {
+    const member = f(members[name], name)
+    if (member) result[name] = mapNested(member, f)
+  }
+  return result
+}
+
+// A copy of `node` in which `f` is applied to every member nested in it,
+// before the members nested in those
+function mapNested<T extends Nested>(node: T, f: MemberMapper): T {
+  const copy: T = Object.assign({}, node)
+  const constructor = ownConstructor(node)
+  if (constructor) {
+    const mapped = f(constructor, "constructor")
+    if (mapped) copy.constructor = mapNested(mapped, f)
+    else delete copy.constructor
+  }
+  if (node.properties) copy.properties = mapMembers(node.properties, f)
+  if (node.staticProperties) copy.staticProperties = mapMembers(node.staticProperties, f)
+  if (node.params) copy.params = node.params.map((param) => mapNested(param, f))
+  if (node.returns) copy.returns = mapNested(node.returns, f)
+  if (node.typeParams) copy.typeParams = node.typeParams.map((type) => mapNested(type, f))
+  if (node.signatures) copy.signatures = node.signatures.map((signature) => mapNested(signature, f))
+  return copy
+}
+
+// Descriptions can mark a declaration or member in prose instead of with a
+// tag, by starting with `Deprecated`, `Internal` or `Experimental`, in bold
+// or not, and a colon or a period, as in "**Deprecated**: Use `Node.cut`."
+// The rest of that paragraph becomes the message of the tag.
+const proseMarker = /^\s*(\*\*)?(Deprecated|Internal|Experimental)(?:\1[ \t]*[:.]|[:.]\1)[ \t]*/
+
+function proseStatus<M extends Member>(member: M): M {
+  const match = member.description ? proseMarker.exec(member.description) : null
+  if (!match) return member
+  const rest = member.description!.slice(match[0].length)
+  const end = rest.search(/\n[ \t]*\n/)
+  const message = (end == -1 ? rest : rest.slice(0, end)).trim() || "true"
+  const status: StatusTags = match[2] == "Deprecated" ? { $deprecated: message }
+    : match[2] == "Internal" ? { $internal: message } : { $experimental: message }
+  return Object.assign({}, member, { description: end == -1 ? undefined : rest.slice(end).trim() }, status)
+}
+
+// Turns the prose markers at the start of descriptions into status tags.
+// Returns null when there are none.
+export function proseStatusTags(items: { [name: string]: Declaration }): { [name: string]: Declaration } | null {
+  let marked = false
+  const result = mapMembers(items, <M extends Member>(member: M) => {
+    const status = proseStatus(member)
+    if (status != member) marked = true
+    return status
+  })
+  return marked ? result : null
+}
+
+// Leaves out the items and the members nested anywhere in them that are
+// tagged `#internal` or marked internal in prose (see `proseStatusTags`),
+// adding their ids to `stripped`. Returns null when there's nothing to
+// strip.
+export function stripInternal(
+  items: { [name: string]: Declaration },
+  stripped: string[]
+): { [name: string]: Declaration } | null {
+  const before = stripped.length
+  const result = mapMembers(items, <M extends Member>(member: M, name: string) => {
+    if (!member.$internal) return member
+    stripped.push(member.id || name)
+    return null
+  })
+  return stripped.length > before ? result : null
+}
@@ -1,10 +1,18 @@
 export interface FunctionType {
   type: "Function",
   id?: string
+  // type parameters of a generic function, which getdocs' type syntax can't
+  // express, so they come from overrides or a `#typeParams` tag
+  typeParams?: Type[],
   params?: Parameter[],
   returns?: ReturnType
+  // the signatures of an overloaded function, in place of `params` and
+  // `returns`
+  signatures?: FunctionSignature[]
 }
 
+export type FunctionSignature = FunctionType & { description?: string }
+
 export interface ArrayType {
   type: "Array",
   typeParams: [Type]
@@ -17,7 +25,9 @@ export interface ObjectType {
 
 export interface OtherType {
   type: string,
-  typeParams?: Type[]
+  typeParams?: Type[],
+  // constraint of a type parameter, as in `T extends Node`
+  extends?: Type
 }
 
 export type Type = FunctionType | ArrayType | ObjectType | OtherType
@@ -31,14 +41,70 @@ export interface ParameterArgs {
 
 export type Parameter = Type & ParameterArgs
 
-export type ReturnType = Type & { optional?: boolean }
+export type ReturnType = Type & { optional?: boolean, description?: string }
+
+// Where getdocs found a doc comment
+export interface SourceLocation {
+  file: string,
+  line: number,
+  column?: number
+}
+
+// Whether a member can be assigned to. `readonly` and `getter` come from the
+// overrides, `$readonly` and `$getter` from `#readonly` and `#getter` tags in
+// the doc comment.
+export interface Mutability {
+  readonly?: boolean
+  getter?: boolean
+  $readonly?: string
+  $getter?: string
+}
+
+// The `#deprecated`, `#internal` and `#experimental` tags. Their value is
+// "true", or a message as in `#deprecated="Use Node.cut instead."`.
+export interface StatusTags {
+  $deprecated?: string
+  $internal?: string
+  $experimental?: string
+}
 
-export type Property = Type & { optional?: boolean, description?: string }
+// The `#overloads` tag, which marks a union of function types as the
+// signatures of an overloaded function
+export interface OverloadsTag {
+  $overloads?: string
+}
+
+export type Property = Type & Mutability & StatusTags & OverloadsTag & {
+  optional?: boolean,
+  description?: string,
+  id?: string,
+  loc?: SourceLocation
+}
 
 export function isFunction(t: Type): t is FunctionType {
   return t.type == "Function";
 }
 
+// Whether `t` is a union of several function types tagged `#overloads`
+export function isOverloadUnion(t: Type & OverloadsTag): boolean {
+  const union: OtherType = t
+  return !!t.$overloads && union.type == "union" && !!union.typeParams && union.typeParams.length > 1 &&
+    union.typeParams.every(isFunction)
+}
+
+// getdocs documents the signatures of an overloaded function as a union of
+// function types tagged `#overloads`, as in `union<(string) → Node, (number)
+// → Node> #overloads`. Turns such a union into a function with `signatures`
+// and leaves other types alone, including untagged unions of functions,
+// which mean "either of these functions".
+export function normalizeOverloads<T extends Type & OverloadsTag>(t: T): T | (T & FunctionType) {
+  if (!isOverloadUnion(t)) return t
+  const union: OtherType = t
+  const signatures: FunctionType[] = []
+  for (let type of union.typeParams || []) if (isFunction(type)) signatures.push(type)
+  return Object.assign({}, t, { type: "Function" as "Function", signatures, typeParams: undefined })
+}
+
 export function isArray(t: Type): t is ArrayType {
   return t.type == "Array";
 }
@@ -51,17 +117,40 @@ export function isOther(t: Type): t is OtherType {
   return !(isFunction(t) || isArray(t) || isObject(t));
 }
 
-export interface ClassOrInterfaceDeclaration {
+export interface ClassOrInterfaceDeclaration extends StatusTags {
   type: "class" | "interface"
+  id?: string
+  loc?: SourceLocation
   typeParams?: Type[]
   extends?: Type
   properties?: { [propName: string]: Property }
   staticProperties?: { [propName: string]: Property }
   description?: string
-  'constructor'?: Function | (FunctionType & { description?: string })
+  'constructor'?: Function | ConstructorDeclaration
+}
+
+export type ConstructorDeclaration = FunctionType & StatusTags & { description?: string, loc?: SourceLocation }
+
+export type OtherDeclaration = Type & Mutability & StatusTags & OverloadsTag & {
+  description?: string,
+  id?: string,
+  loc?: SourceLocation,
+  // set by getdocs when the doc comment belongs to exported code
+  exported?: boolean,
+  // tags of type aliases, `#typedef`, and of type aliases and functions,
+  // `#typeParams="K, V"`
+  $typedef?: string,
+  $typeParams?: string
+}
+
+export function isGetter(decl: Mutability): boolean {
+  return !!(decl.getter || decl.$getter)
 }
 
-export type OtherDeclaration = Type & { description?: string }
+// Getters are read-only too, unless they're declared as accessors.
+export function isReadonly(decl: Mutability): boolean {
+  return !!(decl.readonly || decl.$readonly) || isGetter(decl)
+}
 
 export type Declaration = ClassOrInterfaceDeclaration | OtherDeclaration
 
@@ -69,7 +158,30 @@ export function isClassOrInterfaceDeclaration(decl: Declaration): decl is ClassO
   return decl.type == "class" || decl.type == "interface"
 }
 
+// Named types that aren't classes or interfaces are declared as type
+// aliases. They're tagged `#typedef`, either in the doc comment or, for
+// unions and function types declared with a top-level named doc comment such
+// as `// Command:: (EditorState) → bool`, when the sources are gathered.
+export function isTypeAlias(decl: Declaration): decl is OtherDeclaration {
+  return !isClassOrInterfaceDeclaration(decl) && !!decl.$typedef
+}
+
+// The type parameters a `#typeParams` tag names
+export function taggedTypeParams(decl: OtherDeclaration): Type[] {
+  if (!decl.$typeParams) return []
+  return decl.$typeParams.split(",").map((name) => ({ type: name.trim() }))
+}
+
+// An `export { name as exportedAs } from 'module'` statement's specifier, or
+// an `export * from 'module'` statement, whose name is `*`
+export interface Reexport {
+  module: string
+  name: string
+  exportedAs?: string
+}
+
 export interface ModuleContents {
   items?: { [name: string]: Declaration }
   all?: { [id: string]: Declaration }
+  reexports?: Reexport[]
 }
\ No newline at end of file
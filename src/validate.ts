@@ -0,0 +1,83 @@
+import * as ts from "typescript"
+
+import {Diagnostics} from "./diagnostics"
+import {DeclarationOrigin} from "./genmodule"
+
+export type GeneratedFile = {
+  text: string,
+  // the declaration each line of `text` was generated from, if any
+  origins: (DeclarationOrigin | null)[],
+  // the module all of the file belongs to, unless it's a bundle
+  module?: string
+}
+
+const root = "/getdocs2ts/"
+
+// The file name under which a module's declarations are validated
+export function moduleFileName(moduleName: string): string {
+  return moduleName + "/index.d.ts"
+}
+
+// Type checks the generated declaration files, keyed by file name, together
+// and reports every compiler error as a diagnostic of the declaration that
+// produced the offending line. An import of a module resolves to the file
+// named by `moduleFileName`, if there is one, or to an ambient `declare
+// module` block. TypeScript is only loaded when this runs.
+export function validateDeclarations(files: { [fileName: string]: GeneratedFile }, diagnostics: Diagnostics) {
+  const typescript: typeof ts = require("typescript")
+  const options: ts.CompilerOptions = {
+    target: typescript.ScriptTarget.ES2015,
+    module: typescript.ModuleKind.CommonJS,
+    strictNullChecks: true,
+    noImplicitAny: true,
+    noEmit: true,
+    types: []
+  }
+
+  const byPath: { [path: string]: GeneratedFile } = Object.create(null)
+  for (let fileName in files) byPath[root + fileName] = files[fileName]
+
+  const host = typescript.createCompilerHost(options)
+  const getSourceFile = host.getSourceFile
+  const fileExists = host.fileExists
+  const readFile = host.readFile
+  host.getSourceFile = (fileName, languageVersion, onError) => {
+    const file = byPath[fileName]
+    if (file === undefined) return getSourceFile.call(host, fileName, languageVersion, onError)
+    return typescript.createSourceFile(fileName, file.text, languageVersion)
+  }
+  host.fileExists = (fileName) => fileName in byPath || fileExists.call(host, fileName)
+  host.readFile = (fileName) => {
+    const file = byPath[fileName]
+    return file === undefined ? readFile.call(host, fileName) : file.text
+  }
+  const resolveModule = (moduleName: string): ts.ResolvedModuleFull | undefined => {
+    if (!(moduleFileName(moduleName) in files)) return undefined
+    return { resolvedFileName: root + moduleFileName(moduleName), extension: typescript.Extension.Dts, isExternalLibraryImport: false }
+  }
+  // the compiler takes undefined for the modules it should resolve itself,
+  // even though the typings of TypeScript 2.3 don't say so
+  host.resolveModuleNames = (moduleNames) => moduleNames.map(resolveModule) as ts.ResolvedModule[]
+
+  const program = typescript.createProgram(Object.keys(byPath), options, host)
+  for (let fileName in byPath) {
+    const sourceFile = program.getSourceFile(fileName)
+    const errors = program.getSyntacticDiagnostics(sourceFile).concat(program.getSemanticDiagnostics(sourceFile))
+    for (let error of errors) {
+      const message = typescript.flattenDiagnosticMessageText(error.messageText, "\n")
+      const line = error.start === undefined ? -1 : sourceFile.getLineAndCharacterOfPosition(error.start).line
+      const origin = byPath[fileName].origins[line]
+      const where = " (line " + (line + 1) + " of the generated declarations)"
+      // modules that aren't generated can't be resolved here, so imports
+      // from them are only noted
+      const isUnresolvedImport = error.code == 2307
+      diagnostics.add({
+        severity: isUnresolvedImport ? "info" : "error",
+        message: "TS" + error.code + ": " + message + where,
+        module: origin ? origin.module : byPath[fileName].module,
+        id: origin ? origin.id || origin.name : undefined,
+        loc: origin ? origin.loc : undefined
+      })
+    }
+  }
+}
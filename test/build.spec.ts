@@ -0,0 +1,164 @@
+const fs = require("fs");
+const os = require("os");
+const path = require("path");
+
+import build, {watch, Watcher} from "../src/build";
+import {ModuleContents} from "../src/types";
+
+// Resolves once `check` passes, checking every 20ms for up to 5 seconds
+function eventually(check: () => boolean): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
+    const start = Date.now();
+    const poll = () => {
+      if (check()) resolve();
+      else if (Date.now() - start > 5000) reject(new Error("timed out"));
+      else setTimeout(poll, 20);
+    };
+    poll();
+  });
+}
+
+describe('when watching', function () {
+
+  this.timeout(10000);
+
+  let dir: string, watcher: Watcher | null, error: typeof console.error;
+  const errors: string[] = [];
+  const outFile = () => path.join(dir, "out", "index.d.ts");
+  const read = () => fs.existsSync(outFile()) ? fs.readFileSync(outFile(), "utf8") : "";
+  const write = (file: string, text: string) => fs.writeFileSync(path.join(dir, file), text);
+  const start = () => {
+    watcher = watch([{ name: "module1", srcFiles: path.join(dir, "src", "**", "*.js"), outFile: outFile() }], {});
+  };
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "getdocs2ts-"));
+    fs.mkdirSync(path.join(dir, "src"));
+    error = console.error;
+    errors.length = 0;
+    console.error = (message: string) => { errors.push(message) };
+  });
+
+  afterEach(() => {
+    if (watcher) watcher.close();
+    watcher = null;
+    console.error = error;
+    for (let file of ["out/index.d.ts", "out/lib.d.ts", "src/lib/b.js", "src/a.js", "src/c.js"]) {
+      if (fs.existsSync(path.join(dir, file))) fs.unlinkSync(path.join(dir, file));
+    }
+    for (let sub of ["out", "src/lib", "src", ""]) {
+      if (fs.existsSync(path.join(dir, sub))) fs.rmdirSync(path.join(dir, sub));
+    }
+  });
+
+  it('should build and rebuild when a source file changes', () => {
+    write("src/a.js", "// :: number\nexport let a = 1\n");
+    start();
+    read().should.equal("export let a: number;\n");
+    return new Promise((resolve) => setTimeout(resolve, 50)).then(() => {
+      write("src/a.js", "// :: string\nexport let a = 1\n");
+      return eventually(() => read() == "export let a: string;\n");
+    });
+  });
+
+  it('should pick up files in directories created after it started', () => {
+    write("src/a.js", "// :: number\nexport let a = 1\n");
+    start();
+    fs.mkdirSync(path.join(dir, "src", "lib"));
+    // the new directory is watched once the change to its parent was seen
+    return new Promise((resolve) => setTimeout(resolve, 200)).then(() => {
+      write("src/lib/b.js", "// :: number\nexport let b = 1\n");
+      return eventually(() => read() == "export let a: number;\nexport let b: number;\n");
+    });
+  });
+
+  it('should only gather the modules whose sources changed', () => {
+    fs.mkdirSync(path.join(dir, "src", "lib"));
+    write("src/a.js", "// :: number\nexport let a = 1\n");
+    write("src/lib/b.js", "// :: number\nexport let b = 1\n");
+    const seen: { [moduleName: string]: ModuleContents[] } = { module1: [], module2: [] };
+    const plugin = { gathered: (moduleName: string, contents: ModuleContents) => { seen[moduleName].push(contents) } };
+    watcher = watch([
+      { name: "module1", srcFiles: path.join(dir, "src", "*.js"), outFile: outFile() },
+      { name: "module2", srcFiles: path.join(dir, "src", "lib", "*.js"), outFile: path.join(dir, "out", "lib.d.ts") }
+    ], {}, { plugins: [plugin] });
+    return new Promise((resolve) => setTimeout(resolve, 50)).then(() => {
+      write("src/a.js", "// :: string\nexport let a = 1\n");
+      return eventually(() => read() == "export let a: string;\n");
+    }).then(() => {
+      seen.module1.length.should.equal(2);
+      seen.module1[1].should.not.equal(seen.module1[0]);
+      seen.module2.length.should.equal(2);
+      seen.module2[1].should.equal(seen.module2[0]);
+    });
+  });
+
+  it('should report conflicting doc comments like a build and recover when they are fixed', () => {
+    write("src/a.js", "// :: number\nexport let a = 1\n");
+    start();
+    return new Promise((resolve) => setTimeout(resolve, 50)).then(() => {
+      write("src/c.js", "// a:: string\n");
+      return eventually(() => errors.length > 0);
+    }).then(() => {
+      errors[0].should.contain("Conflicting information");
+      read().should.equal("export let a: number;\n");
+      write("src/c.js", "// :: string\nexport let c = 1\n");
+      return eventually(() => read() == "export let a: number;\nexport let c: string;\n");
+    });
+  });
+
+});
+
+describe('when checking', () => {
+
+  let dir: string;
+  const outFile = () => path.join(dir, "index.d.ts");
+  const modules = () => [{ name: "module1", srcFiles: path.join(dir, "a.js"), outFile: outFile() }];
+
+  // Runs `f` without printing what it writes to stdout, returning that
+  // output along with its result
+  function capture<A>(f: () => A): { result: A, output: string } {
+    const write = process.stdout.write;
+    let output = "";
+    process.stdout.write = ((text: string) => { output += text; return true }) as typeof write;
+    try {
+      return { result: f(), output };
+    } finally {
+      process.stdout.write = write;
+    }
+  }
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "getdocs2ts-"));
+    fs.writeFileSync(path.join(dir, "a.js"), "// :: number\nexport let a = 1\n");
+  });
+
+  afterEach(() => {
+    for (let file of ["a.js", "index.d.ts"]) {
+      if (fs.existsSync(path.join(dir, file))) fs.unlinkSync(path.join(dir, file));
+    }
+    fs.rmdirSync(dir);
+  });
+
+  it('should report missing and outdated files without writing them', () => {
+    const missing = capture(() => build(modules(), {}, { check: true })).result;
+    missing.success.should.equal(false);
+    missing.outdatedFiles.should.deep.equal([outFile()]);
+    fs.existsSync(outFile()).should.equal(false);
+
+    fs.writeFileSync(outFile(), "export let a: string;\n");
+    const { result, output } = capture(() => build(modules(), {}, { check: true }));
+    result.success.should.equal(false);
+    result.outdatedFiles.should.deep.equal([outFile()]);
+    output.should.contain("-export let a: string;\n+export let a: number;");
+    fs.readFileSync(outFile(), "utf8").should.equal("export let a: string;\n");
+  });
+
+  it('should succeed once the files match', () => {
+    build(modules(), {}).success.should.equal(true);
+    const result = build(modules(), {}, { check: true });
+    result.success.should.equal(true);
+    result.outdatedFiles.should.deep.equal([]);
+  });
+
+});
@@ -0,0 +1,128 @@
+const fs = require("fs");
+const os = require("os");
+const path = require("path");
+
+import {main, readConfig} from "../src/cli";
+
+// Removes a directory and everything in it
+function removeDir(dir: string) {
+  for (let name of fs.readdirSync(dir)) {
+    const file = path.join(dir, name);
+    if (fs.statSync(file).isDirectory()) removeDir(file);
+    else fs.unlinkSync(file);
+  }
+  fs.rmdirSync(dir);
+}
+
+describe('the command line', () => {
+
+  let dir: string, log: typeof console.log, error: typeof console.error;
+  const logged: string[] = [], errors: string[] = [];
+  const file = (name: string) => path.join(dir, name);
+  const read = (name: string) => fs.existsSync(file(name)) ? fs.readFileSync(file(name), "utf8") : null;
+  const write = (name: string, text: string) => fs.writeFileSync(file(name), text);
+  // a JSON config, in a directory of its own in every test, so that
+  // `require` doesn't return one it cached before
+  const writeConfig = (config: {}) => {
+    write("config.json", JSON.stringify(config));
+    return file("config.json");
+  };
+  const modules = [
+    { name: "module1", srcFiles: "src/a.js", outFile: "out/module1/index.d.ts" },
+    { name: "module2", srcFiles: "src/b.js", outFile: "out/module2/index.d.ts" }
+  ];
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "getdocs2ts-cli-"));
+    fs.mkdirSync(file("src"));
+    write("src/a.js", "// :: number\nexport let a = 1\n");
+    write("src/b.js", "// :: Missing\nexport let b = 1\n");
+    log = console.log;
+    error = console.error;
+    logged.length = 0;
+    errors.length = 0;
+    console.log = (message: string) => { logged.push(message) };
+    console.error = (message: string) => { errors.push(message) };
+  });
+
+  afterEach(() => {
+    console.log = log;
+    console.error = error;
+    removeDir(dir);
+  });
+
+  it('should print its usage', () => {
+    main(["--help"]).should.equal(0);
+    logged[0].should.contain("Usage: getdocs2ts [options]");
+  });
+
+  it('should write every module relative to the config file', () => {
+    main(["-c", writeConfig({ modules })]).should.equal(0);
+    read("out/module1/index.d.ts")!.should.equal("export let a: number;\n");
+    read("out/module2/index.d.ts")!.should.equal("export let b: Missing;\n");
+  });
+
+  it('should write the output files relative to --out-dir', () => {
+    main(["--config", writeConfig({ modules }), "--out-dir", file("dist")]).should.equal(0);
+    read("dist/out/module1/index.d.ts")!.should.equal("export let a: number;\n");
+    (read("out/module1/index.d.ts") === null).should.equal(true);
+  });
+
+  it('should only write the modules given with --module', () => {
+    main(["-c", writeConfig({ modules }), "--module", "module2"]).should.equal(0);
+    (read("out/module1/index.d.ts") === null).should.equal(true);
+    read("out/module2/index.d.ts")!.should.equal("export let b: Missing;\n");
+  });
+
+  it('should fail with warnings when strict', () => {
+    main(["-c", writeConfig({ modules }), "--strict"]).should.equal(1);
+    errors[errors.length - 1].should.equal("getdocs2ts: failed with 1 problem");
+    (read("out/module1/index.d.ts") === null).should.equal(true);
+  });
+
+  it('should reject unknown modules', () => {
+    main(["-c", writeConfig({ modules }), "-m", "module1,module3"]).should.equal(1);
+    errors.should.deep.equal(["getdocs2ts: unknown module 'module3'"]);
+  });
+
+  it('should reject unknown options and options without a value', () => {
+    main(["--verbose"]).should.equal(1);
+    main(["--config"]).should.equal(1);
+    errors.should.deep.equal(["getdocs2ts: unknown option '--verbose'", "getdocs2ts: missing value for '--config'"]);
+  });
+
+  it('should fail when the config file does not exist', () => {
+    main(["-c", file("missing.json")]).should.equal(1);
+    errors.should.deep.equal(["getdocs2ts: config file '" + file("missing.json") + "' not found"]);
+  });
+
+  it('should not combine --watch with --check', () => {
+    main(["-c", writeConfig({ modules }), "--watch", "--check"]).should.equal(1);
+    errors.should.deep.equal(["getdocs2ts: '--check' can't be combined with '--watch'"]);
+  });
+
+  describe('config', () => {
+
+    it('should need a modules array', () => {
+      const config = writeConfig({ typeInfos: {} });
+      (() => readConfig(config)).should.throw("config file '" + config + "' does not export a 'modules' array");
+    });
+
+    it('should need a name and srcFiles for every module', () => {
+      const config = writeConfig({ modules: [{ name: "module1", outFile: "index.d.ts" }] });
+      (() => readConfig(config)).should.throw("every module in '" + config + "' needs a 'name' and 'srcFiles'");
+    });
+
+    it('should need an outFile for every module unless writing a bundle', () => {
+      const config = writeConfig({ modules: [{ name: "module1", srcFiles: "src/a.js" }] });
+      (() => readConfig(config)).should.throw("module 'module1' in '" + config + "' needs an 'outFile'");
+    });
+
+    it('should reject plugins in a JSON config', () => {
+      const config = writeConfig({ modules, plugins: [{ name: "fix", gathered: "fix.js" }] });
+      (() => readConfig(config)).should.throw("'gathered' of plugin fix in '" + config + "' isn't a function; plugins need a JavaScript config");
+    });
+
+  });
+
+});
@@ -0,0 +1,95 @@
+import {extractExamples, examplesFile} from "../src/examples";
+import {gatherModule} from "../src/generate";
+
+describe('examples', () => {
+
+  const source = [
+    "// ::- A document node.",
+    "//",
+    "//     ```js",
+    "//     let doc = Node.fromJSON(schema, json)",
+    "//",
+    "//     doc.nodeSize",
+    "//     ```",
+    "export class Node {",
+    "  // :: (number) → Node",
+    "  // Get a child.",
+    "  //",
+    "  // ```",
+    "  // doc.child(0)",
+    "  // ```",
+    "  //",
+    "  // ```html",
+    "  // <p>Not code</p>",
+    "  // ```",
+    "  child(i) {}",
+    "}",
+    ""
+  ].join("\n");
+
+  it('should extract the JavaScript code blocks of all descriptions', () => {
+    const examples = extractExamples(gatherModule({ "node.js": source }));
+    examples.map((example) => [example.id, example.code, example.loc!.line]).should.deep.equal([
+      ["Node", "let doc = Node.fromJSON(schema, json)\n\ndoc.nodeSize", 1],
+      ["Node.child", "doc.child(0)", 9]
+    ])
+  });
+
+  it('should put each example in a block of its own', () => {
+    const examples = [
+      { id: "Node", code: "let doc = Node.fromJSON(schema, json)\n\ndoc.nodeSize", loc: { file: "node.js", line: 1 } },
+      { id: "Node.child", code: "doc.child(0)" }
+    ];
+    examplesFile("prosemirror-model", ["Fragment", "Node"], examples).should.equal([
+      "// Examples from the documentation of prosemirror-model, checked against its",
+      "// declarations.",
+      "import { Fragment, Node } from 'prosemirror-model';",
+      "",
+      "// Node (node.js:1)",
+      "{",
+      "  let doc = Node.fromJSON(schema, json)",
+      "",
+      "  doc.nodeSize",
+      "}",
+      "",
+      "// Node.child",
+      "{",
+      "  doc.child(0)",
+      "}",
+      ""
+    ].join("\n"))
+  });
+
+  it('should move imports out of the blocks, leaving out the module itself and repeated ones', () => {
+    const examples = [
+      { id: "Node", code: "import {Node} from \"prosemirror-model\"\nimport {EditorState} from \"prosemirror-state\"\nlet doc = Node.fromJSON(schema, json)" },
+      { id: "Node.child", code: "import {\n  EditorState\n} from 'prosemirror-state';\nimport * as view from 'prosemirror-view'\ndoc.child(0)" }
+    ];
+    examplesFile("prosemirror-model", ["Node"], examples).should.equal([
+      "// Examples from the documentation of prosemirror-model, checked against its",
+      "// declarations.",
+      "import { Node } from 'prosemirror-model';",
+      "import { EditorState } from 'prosemirror-state';",
+      "import * as view from 'prosemirror-view';",
+      "",
+      "// Node",
+      "{",
+      "  let doc = Node.fromJSON(schema, json)",
+      "}",
+      "",
+      "// Node.child",
+      "{",
+      "  doc.child(0)",
+      "}",
+      ""
+    ].join("\n"))
+  });
+
+  it('should mark examples with locations as formatted by the caller', () => {
+    const examples = [{ id: "Node", code: "doc.nodeSize", loc: { file: "/home/me/pm/src/node.js", line: 3 } }];
+    examplesFile("prosemirror-model", ["Node"], examples, (loc) => "../src/node.js:" + loc.line).split("\n")[4].should.equal(
+      "// Node (../src/node.js:3)"
+    )
+  });
+
+});
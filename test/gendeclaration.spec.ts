@@ -1,4 +1,4 @@
-import {emptyEnvForTests} from "../src/env"
+import {emptyEnvForTests, GenEnv, baseTypes, mergeTypeInfos, IdIndex} from "../src/env"
 import {declarationDef} from "../src/gendeclaration";
 import {ClassOrInterfaceDeclaration} from "../src/types";
 
@@ -24,6 +24,15 @@ describe('declarations', () => {
       ])
     });
 
+    it('should put class type parameters in scope for its members', () => {
+      const item: ClassOrInterfaceDeclaration = { type: "class", typeParams: [{ type: "T" }], properties: { get: { type: "Function", params: [], returns: { type: "T" } } } };
+      declarationDef(env, item, "Box").should.deep.equal([
+        "class Box<T> {",
+        "  get(): T;",
+        "}"
+      ])
+    });
+
     it('should not use return type for a constructor', () => {
       const item: ClassOrInterfaceDeclaration = { type: "class", constructor: { type: "Function", id: "Foo.constructor"} };
       declarationDef(env, item, "Foo").should.deep.equal([
@@ -78,6 +87,37 @@ describe('declarations', () => {
       ])
     });
 
+    it('should declare overloaded methods', () => {
+      const item: ClassOrInterfaceDeclaration = {
+        type: "interface",
+        properties: {
+          get: { type: "union", $overloads: "true", typeParams: [{ type: "Function", params: [{ name: "i", type: "number" }], returns: { type: "Node" } }, { type: "Function", params: [], returns: { type: "Array", typeParams: [{ type: "Node" }] } }] },
+          map: { type: "union", $overloads: "true", optional: true, typeParams: [{ type: "Function", params: [{ type: "number" }] }, { type: "Function", params: [{ type: "string" }] }] }
+        }
+      };
+      declarationDef(env, item, "Foo").should.deep.equal([
+        "interface Foo {",
+        "  get(i: number): Node;",
+        "  get(): Node[];",
+        "  map?: { (p: number): void; (p: string): void } | null;",
+        "}"
+      ])
+    });
+
+    it('should keep untagged unions of function types as unions', () => {
+      const item: ClassOrInterfaceDeclaration = {
+        type: "interface",
+        properties: {
+          handler: { type: "union", typeParams: [{ type: "Function", params: [{ name: "i", type: "number" }] }, { type: "Function", params: [] }] }
+        }
+      };
+      declarationDef(env, item, "Foo").should.deep.equal([
+        "interface Foo {",
+        "  handler: ((i: number) => void) | (() => void);",
+        "}"
+      ])
+    });
+
     it('should add interface definition with one optional property of type any', () => {
       const item: ClassOrInterfaceDeclaration = { type: "interface", properties: { prop1: { type: "any", optional: true } } };
       declarationDef(env, item, "Foo").should.deep.equal([
@@ -87,6 +127,40 @@ describe('declarations', () => {
       ])
     });
 
+    it('should declare members tagged as read-only or getters readonly', () => {
+      const item: ClassOrInterfaceDeclaration = { type: "class", properties: {
+        nodeSize: { type: "number", $getter: "true" },
+        attrs: { type: "Object", typeParams: [{ type: "any" }], $readonly: "true" },
+        filter: { type: "Function", params: [], returns: { type: "bool" }, $readonly: "true" }
+      } };
+      declarationDef(env, item, "Node").should.deep.equal([
+        "class Node {",
+        "  readonly nodeSize: number;",
+        "  readonly attrs: { [name: string]: any };",
+        "  readonly filter: () => boolean;",
+        "}"
+      ])
+    });
+
+    it('should declare getters of classes as accessors if asked to', () => {
+      const accessorEnv = new GenEnv("module", {}, baseTypes, { getters: "accessor" });
+      const properties = { doc: { type: "Node", getter: true }, selection: { type: "Selection", $getter: "true", optional: true }, schema: { type: "Schema", readonly: true } };
+      declarationDef(accessorEnv, { type: "class", properties }, "EditorState").should.deep.equal([
+        "class EditorState {",
+        "  get doc(): Node;",
+        "  get selection(): Selection | null;",
+        "  readonly schema: Schema;",
+        "}"
+      ]);
+      declarationDef(accessorEnv, { type: "interface", properties }, "StateLike").should.deep.equal([
+        "interface StateLike {",
+        "  readonly doc: Node;",
+        "  readonly selection?: Selection | null;",
+        "  readonly schema: Schema;",
+        "}"
+      ]);
+    });
+
     it('should add class definition with one static let property', () => {
       const item: ClassOrInterfaceDeclaration = { type: "class", staticProperties: { prop1: { type: "number" } } };
       declarationDef(env, item, "Foo").should.deep.equal([
@@ -178,28 +252,166 @@ describe('declarations', () => {
       ])
     })
 
+    it('should document method parameters and return values', () => {
+      const item: ClassOrInterfaceDeclaration = {
+        type: "class",
+        properties: {
+          nodeAt: {
+            type: "Function", description: "Find the node at a position.",
+            params: [{ name: "pos", type: "number", description: "The position." }, { name: "deep", type: "bool", optional: true }],
+            returns: { type: "Node", optional: true, description: "The node,\nif any." }
+          }
+        }
+      };
+      declarationDef(env, item, "Foo").should.deep.equal([
+        "class Foo {",
+        "  /**",
+        "   * Find the node at a position.",
+        "   *",
+        "   * @param pos The position.",
+        "   * @returns The node,",
+        "   * if any.",
+        "   */",
+        "  nodeAt(pos: number, deep?: boolean): Node | null | void;",
+        "}"
+      ])
+    });
+
+  });
+
+  describe('links', () => {
+
+    const links: IdIndex = {
+      "prosemirror-model": { "Node": { type: "class" }, "Node.attrs": { type: "Object" } },
+      "prosemirror-state": { "EditorState": { type: "class" }, "EditorState^create": { type: "Function" } }
+    };
+
+    function linkEnv() {
+      return new GenEnv("prosemirror-state", {}, baseTypes, { links });
+    }
+
+    it('should turn links into {@link} tags', () => {
+      const decl = { type: "number", description: "See [`EditorState.create`](#state.EditorState^create) and [the state](#EditorState)." };
+      declarationDef(linkEnv(), decl, "foo").should.deep.equal([
+        "/**",
+        " * See {@link EditorState.create} and {@link EditorState | the state}.",
+        " */",
+        "let foo: number;"
+      ])
+    });
+
+    it('should qualify links to other modules', () => {
+      const decl = { type: "number", description: "The [`Node`](#model.Node)'s [`attrs`](#model.Node.attrs)." };
+      declarationDef(linkEnv(), decl, "foo")[1].should.equal(
+        " * The {@link prosemirror-model#Node}'s {@link prosemirror-model#Node.attrs | attrs}."
+      )
+    });
+
+    it('should refer to replaced types in the current module by the name they are declared as', () => {
+      const typeInfos = mergeTypeInfos(baseTypes, { Node: { replaceBy: "ProsemirrorNode" } });
+      const env = new GenEnv("prosemirror-model", {}, typeInfos, { links });
+      const decl = { type: "number", description: "The [`attrs`](#model.Node.attrs) of [the node](#Node)." };
+      declarationDef(env, decl, "foo")[1].should.equal(
+        " * The {@link ProsemirrorNode.attrs | attrs} of {@link ProsemirrorNode | the node}."
+      )
+    });
+
+    it('should report links that cannot be resolved', () => {
+      const env = linkEnv();
+      const decl = { type: "number", id: "foo", description: "See [`Mark`](#model.Mark)." };
+      declarationDef(env, decl, "foo")[1].should.equal(" * See [`Mark`](#model.Mark).");
+      env.diagnostics.list.map((d) => d.message).should.deep.equal(["unresolved link to '#model.Mark'"])
+    });
+
+  });
+
+  describe('diagnostics', () => {
+
+    it('should report unknown types with the declaration they were found in', () => {
+      const myEnv = emptyEnvForTests();
+      const item: ClassOrInterfaceDeclaration = {
+        type: "class", id: "Foo", loc: { file: "foo.js", line: 1 },
+        properties: { bar: { type: "Bar", id: "Foo.bar", loc: { file: "foo.js", line: 3 } } }
+      };
+      declarationDef(myEnv, item, "Foo");
+      myEnv.diagnostics.list.should.deep.equal([
+        { severity: "warning", message: "unknown type 'Foo'", module: "test", id: "Foo", loc: { file: "foo.js", line: 1 } },
+        { severity: "warning", message: "unknown type 'Bar'", module: "test", id: "Foo.bar", loc: { file: "foo.js", line: 3 } }
+      ])
+    });
+
+    it('should report type parameters used outside of a generic as unknown types', () => {
+      const myEnv = emptyEnvForTests();
+      declarationDef(myEnv, { type: "Function", id: "first", params: [{ type: "Array", typeParams: [{ type: "T" }] }] }, "first");
+      myEnv.diagnostics.list.map((d) => d.message).should.deep.equal([
+        "unknown type 'T'"
+      ])
+    });
+
+    it('should report interface members copied into a class', () => {
+      const declarationOfBar: ClassOrInterfaceDeclaration = { type: "interface", properties: { size: { type: "number" } } };
+      const myEnv = emptyEnvForTests({ "Foo": {}, "Bar": { declaration: declarationOfBar } });
+      const decl: ClassOrInterfaceDeclaration = { type: "class", id: "Foo", extends: { type: "Bar" } };
+      declarationDef(myEnv, decl, "Foo");
+      myEnv.diagnostics.list.should.deep.equal([
+        { severity: "info", message: "copied members of interface 'Bar' into class 'Foo': size", module: "test", id: "Foo", loc: undefined }
+      ])
+      decl.should.not.have.property("properties");
+    });
+
+    it('should report misplaced #overloads tags and @overload paragraphs', () => {
+      const myEnv = emptyEnvForTests();
+      declarationDef(myEnv, { type: "Function", id: "a", params: [], $overloads: "true" }, "a");
+      declarationDef(myEnv, {
+        type: "union", id: "b", $overloads: "true", description: "@overload One.",
+        typeParams: [{ type: "Function", params: [] }, { type: "Function", params: [{ type: "number" }] }]
+      }, "b");
+      myEnv.diagnostics.list.map((d) => d.id + ": " + d.message).should.deep.equal([
+        "a: '#overloads' needs a union of several function types",
+        "b: 1 '@overload' paragraphs for 2 signatures"
+      ])
+    });
+
   });
 
   describe('constructors', () => {
 
     it('should create a constructor', () => {
       const decl = {id: "Plugin.constructor", name: "Plugin", type: "Function"};
-      declarationDef(env, decl, "item1").should.deep.equal([
-        'constructor();'
+      declarationDef(env, { type: "class", constructor: decl }, "Plugin").should.deep.equal([
+        'class Plugin {',
+        '  constructor();',
+        '}'
       ])
     });
 
     it('should create a constructor with one parameter', () => {
       const decl = { id: "Plugin.constructor", name: "Plugin", type: "Function", params: [{name: "spec", type: "PluginSpec"}] };
-      declarationDef(env, decl, "item1").should.deep.equal([
-        'constructor(spec: PluginSpec);'
+      declarationDef(env, { type: "class", constructor: decl }, "Plugin").should.deep.equal([
+        'class Plugin {',
+        '  constructor(spec: PluginSpec);',
+        '}'
+      ])
+    });
+
+    it('should document constructor parameters without a description', () => {
+      const decl = { id: "Plugin.constructor", type: "Function", params: [{ type: "PluginSpec", description: "The plugin's spec." }], returns: { type: "Plugin", description: "ignored" } };
+      declarationDef(env, { type: "class", constructor: decl }, "Plugin").should.deep.equal([
+        'class Plugin {',
+        '  /**',
+        '   * @param p The plugin\'s spec.',
+        '   */',
+        '  constructor(p: PluginSpec);',
+        '}'
       ])
     });
 
     it('should create a constructor with two parameter', () => {
       const decl = { id: "Plugin.constructor", name: "Plugin", type: "Function", params: [{ name: "spec", type: "PluginSpec" }, { name: "spec2", type: "number" }] };
-      declarationDef(env, decl, "item1").should.deep.equal([
-        'constructor(spec: PluginSpec, spec2: number);'
+      declarationDef(env, { type: "class", constructor: decl }, "Plugin").should.deep.equal([
+        'class Plugin {',
+        '  constructor(spec: PluginSpec, spec2: number);',
+        '}'
       ])
     });
 
@@ -209,17 +421,104 @@ describe('declarations', () => {
 
     it('should create an object', () => {
       const decl = { type: "Object", properties: { props: {type: "EditorProps", optional: true}} };
-      declarationDef(env, decl, "PluginSpec").should.deep.equal(["let PluginSpec: { props?: EditorProps | null }"])
+      declarationDef(env, decl, "spec").should.deep.equal(["let spec: { props?: EditorProps | null };"])
+    });
+
+    it('should declare named types as type aliases', () => {
+      const decl = { type: "union", $typedef: "true", description: "Where to put it.", typeParams: [{ type: "\"before\"" }, { type: "\"after\"" }] };
+      declarationDef(env, decl, "Side", true).should.deep.equal([
+        "/**",
+        " * Where to put it.",
+        " */",
+        "export type Side = \"before\" | \"after\";"
+      ])
+    });
+
+    it('should declare declarations tagged as typedef as generic type aliases', () => {
+      const decl = { type: "Function", $typedef: "true", $typeParams: "K, V", params: [{ name: "key", type: "K" }], returns: { type: "V" } };
+      declarationDef(env, decl, "lookup").should.deep.equal(["type lookup<K, V> = (key: K) => V;"])
+    });
+
+    it('should not declare capitalized functions as type aliases', () => {
+      const decl = { type: "Function", params: [] };
+      declarationDef(env, decl, "Fragment").should.deep.equal(["function Fragment(): void;"])
     });
 
     it('should handle a function', () => {
       const decl = { type: "Function", params: [] };
-      declarationDef(env, decl, "testFoo").should.deep.equal(["function testFoo(): void"])
+      declarationDef(env, decl, "testFoo").should.deep.equal(["function testFoo(): void;"])
     })
 
+    it('should handle a generic function', () => {
+      const decl = { type: "Function", typeParams: [{ type: "N" }], params: [{ name: "node", type: "N" }], returns: { type: "Array", typeParams: [{ type: "N" }] } };
+      declarationDef(env, decl, "wrap").should.deep.equal(["function wrap<N>(node: N): N[];"])
+    });
+
+    it('should take the type parameters of a function from its #typeParams tag', () => {
+      const decl = { type: "Function", $typeParams: "K, V", params: [{ name: "key", type: "K" }], returns: { type: "V" } };
+      declarationDef(env, decl, "get").should.deep.equal(["function get<K, V>(key: K): V;"])
+      const overloaded = {
+        type: "union", $overloads: "true", $typeParams: "T",
+        typeParams: [{ type: "Function", params: [{ type: "T" }] }, { type: "Function", params: [], returns: { type: "T" } }]
+      };
+      declarationDef(env, overloaded, "value").should.deep.equal(["function value<T>(p: T): void;", "function value<T>(): T;"])
+    });
+
+    it('should declare each signature of an overloaded function with its own docs', () => {
+      const decl = {
+        type: "union",
+        $overloads: "true",
+        id: "resolve",
+        description: "Resolve a position.",
+        typeParams: [
+          { type: "Function", params: [{ name: "pos", type: "number", description: "A document position." }], returns: { type: "ResolvedPos" } },
+          { type: "Function", params: [{ name: "pos", type: "string" }, { name: "bias", type: "number" }], returns: { type: "ResolvedPos" } }
+        ]
+      };
+      declarationDef(env, decl, "resolve", true).should.deep.equal([
+        "/**",
+        " * Resolve a position.",
+        " *",
+        " * @param pos A document position.",
+        " */",
+        "export function resolve(pos: number): ResolvedPos;",
+        "/**",
+        " * Resolve a position.",
+        " */",
+        "export function resolve(pos: string, bias: number): ResolvedPos;"
+      ])
+    });
+
+    it('should give each signature of an overloaded function its own @overload paragraph', () => {
+      const decl = {
+        type: "union",
+        $overloads: "true",
+        description: "Resolve a position.\n\n@overload By offset.\n\n@overload By name,\nwith a bias.",
+        typeParams: [
+          { type: "Function", params: [{ name: "pos", type: "number" }], returns: { type: "ResolvedPos" } },
+          { type: "Function", params: [{ name: "pos", type: "string" }, { name: "bias", type: "number" }], returns: { type: "ResolvedPos" } }
+        ]
+      };
+      declarationDef(env, decl, "resolve", true).should.deep.equal([
+        "/**",
+        " * Resolve a position.",
+        " *",
+        " * By offset.",
+        " */",
+        "export function resolve(pos: number): ResolvedPos;",
+        "/**",
+        " * Resolve a position.",
+        " *",
+        " * By name,",
+        " * with a bias.",
+        " */",
+        "export function resolve(pos: string, bias: number): ResolvedPos;"
+      ])
+    });
+
     it('should handle an optional function', () => {
       const decl = { type: "Function", optional: true, params: [] };
-      declarationDef(env, decl, "testFoo").should.deep.equal(["let testFoo: (() => void) | null | undefined"])
+      declarationDef(env, decl, "testFoo").should.deep.equal(["let testFoo: (() => void) | null | undefined;"])
     });
 
     it('should allow using custom code for some definitions', () => {
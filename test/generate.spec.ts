@@ -0,0 +1,540 @@
+import {generate, generateFiles, generateBundle} from "../src/generate";
+import {Diagnostics} from "../src/diagnostics";
+import {Plugin} from "../src/plugins";
+import {ModuleContents} from "../src/types";
+
+describe('when generating in memory', () => {
+
+  it('should gather declarations from source text', () => {
+    const sources = {
+      "a.js": "// ::- A class.\nexport class Foo {\n  // :: number\n  // The size.\n  size() {}\n}\n"
+    };
+    const files = generate([{ name: "module1", sources }], {});
+    Object.keys(files).should.deep.equal(["module1"]);
+    files["module1"].should.equal([
+      "/**",
+      " * A class.",
+      " */",
+      "export class Foo {",
+      "  /**",
+      "   * The size.",
+      "   */",
+      "  size: number;",
+      "}",
+      ""
+    ].join("\n"))
+  });
+
+  it('should accept gathered module contents and prepend the header', () => {
+    const contents = { items: { Class1: { type: "class" } } };
+    generate([{ name: "module1", contents, header: "// header\n" }], {})["module1"].should.equal(
+      "// header\nexport class Class1 {\n}\n"
+    )
+  });
+
+  it('should import types exported by other modules', () => {
+    const foo = { type: "class" };
+    const modules = [
+      { name: "module1", contents: { items: { Foo: foo }, all: { Foo: foo } } },
+      { name: "module2", contents: { items: { Bar: { type: "class", extends: { type: "Foo" } } } } }
+    ];
+    generate(modules, {})["module2"].should.equal([
+      "import { Foo } from 'module1';",
+      "",
+      "export class Bar extends Foo {",
+      "}",
+      ""
+    ].join("\n"))
+  });
+
+  it('should import type aliases from other modules', () => {
+    const modules = [
+      { name: "module1", contents: { items: { Command: { type: "Function", $typedef: "true", params: [{ name: "state", type: "string" }], returns: { type: "bool" } } } } },
+      { name: "module2", contents: { items: { run: { type: "Function", exported: true, params: [{ name: "command", type: "Command" }] } } } }
+    ];
+    const files = generate(modules, {});
+    files["module1"].should.equal("export type Command = (state: string) => boolean;\n");
+    files["module2"].should.equal([
+      "import { Command } from 'module1';",
+      "",
+      "export function run(command: Command): void;",
+      ""
+    ].join("\n"))
+  });
+
+  it('should declare named unions and function types as type aliases', () => {
+    const sources = {
+      "a.js": "// Command:: (number) → bool\n\n// Side:: union<\"left\", \"right\">\n\n// :: (number) → bool\nfunction check(n) {}\n\n// ::- A class.\nexport class Foo {\n  // bar:: number\n}\n"
+    };
+    generate([{ name: "module1", sources }], {})["module1"].should.equal([
+      "export type Command = (p: number) => boolean;",
+      "export type Side = \"left\" | \"right\";",
+      "export function check(n: number): boolean;",
+      "/**",
+      " * A class.",
+      " */",
+      "export class Foo {",
+      "  bar: number;",
+      "}",
+      ""
+    ].join("\n"))
+  });
+
+  it('should re-export declarations of other modules instead of declaring them again', () => {
+    const node = "// ::- A node.\nexport class Node {}\n";
+    const files = generate([
+      { name: "model", sources: { "model/node.js": node } },
+      { name: "state", sources: {
+        "state/index.js": "export {Node, Mark as DocMark} from \"model\"\nexport {helper} from './helper'\n" +
+          "// export {Fragment} from \"model\"\nconst text = 'export {Slice} from \"model\"'\n",
+        "state/all.js": "export * from \"model\"\nexport * from './helper'\n",
+        "state/node.js": node,
+        "state/state.js": "// ::- The state.\nexport class EditorState {\n  // :: Node\n  doc() {}\n}\n"
+      } }
+    ], {});
+    files["state"].should.equal([
+      "import { Node } from 'model';",
+      "",
+      "export * from 'model';",
+      "export { Mark as DocMark, Node } from 'model';",
+      "",
+      "/**",
+      " * The state.",
+      " */",
+      "export class EditorState {",
+      "  doc: Node;",
+      "}",
+      ""
+    ].join("\n"))
+  });
+
+  it('should collect the dependencies of every module and report import cycles', () => {
+    const a = { type: "class", id: "A", properties: { b: { type: "B" } } };
+    const b = { type: "class", id: "B", properties: { a: { type: "A" }, map: { type: "OrderedMap" } } };
+    const dependencies = {};
+    const diagnostics = new Diagnostics();
+    generate([
+      { name: "module1", contents: { items: { A: a }, all: { A: a } } },
+      { name: "module2", contents: { items: { B: b }, all: { B: b } } },
+      { name: "module3", contents: { items: {} } }
+    ], { OrderedMap: { sourceModule: { name: "orderedmap", isWholeModule: true } } }, { diagnostics, dependencies });
+    dependencies.should.deep.equal({ module1: ["module2"], module2: ["module1", "orderedmap"], module3: [] });
+    diagnostics.list.should.deep.equal([
+      { severity: "warning", message: "import cycle: module1 -> module2 -> module1" }
+    ])
+  });
+
+  it('should end declarations and members in location comments and record their origins', () => {
+    const sources = {
+      "a.js": "// ::- A class.\nexport class Foo {\n  // :: number\n  // The size.\n  size() {}\n}\n\n// :: number\nexport let count = 1\n"
+    };
+    const options = { locationComments: (moduleName: string, loc: { file: string, line: number }) => moduleName + "/" + loc.file + ":" + loc.line };
+    const file = generateFiles([{ name: "module1", sources }], {}, options)["module1"];
+    file.text.should.equal([
+      "/**",
+      " * A class.",
+      " */",
+      "export class Foo { // module1/a.js:1",
+      "  /**",
+      "   * The size.",
+      "   */",
+      "  size: number; // module1/a.js:3",
+      "}",
+      "export let count: number; // module1/a.js:8",
+      ""
+    ].join("\n"));
+    file.origins.map((origin) => origin && origin.id).should.deep.equal(["Foo", "Foo", "Foo", "Foo", "Foo.size", "Foo.size", "Foo.size", "Foo.size", "Foo", "count"]);
+  });
+
+  it('should tag deprecated, experimental and internal declarations', () => {
+    const sources = {
+      "a.js": "// ::- #experimental A class.\nexport class Foo {\n  // :: number #deprecated=\"Use `length`.\"\n  size() {}\n  // :: number #internal\n  secret() {}\n}\n"
+    };
+    generate([{ name: "module1", sources }], {})["module1"].should.equal([
+      "/**",
+      " * A class.",
+      " *",
+      " * @experimental",
+      " */",
+      "export class Foo {",
+      "  /**",
+      "   * @deprecated Use `length`.",
+      "   */",
+      "  size: number;",
+      "  /**",
+      "   * @internal",
+      "   */",
+      "  secret: number;",
+      "}",
+      ""
+    ].join("\n"));
+  });
+
+  it('should strip internal declarations and members and collect their ids', () => {
+    const sources = {
+      "a.js": "// ::-\nexport class Foo {\n  // :: number\n  size() {}\n  // :: number #internal\n  secret() {}\n}\n\n// :: () #internal\nexport function hidden() {}\n"
+    };
+    const stripped: { module: string, id: string }[] = [];
+    generate([{ name: "module1", sources }], {}, { internal: "strip", stripped })["module1"].should.equal(
+      "export class Foo {\n  size: number;\n}\n"
+    );
+    stripped.should.deep.equal([{ module: "module1", id: "Foo.secret" }, { module: "module1", id: "hidden" }]);
+  });
+
+  it('should strip internal constructors and object type members', () => {
+    const sources = {
+      "a.js": "// ::-\nexport class Foo {\n  // :: (Object) #internal\n  //\n  //   options::- The options.\n  //\n  //     secret:: number #internal\n  //     size:: number\n  constructor(options) {}\n  // :: (Object)\n  //\n  //   options::-\n  //\n  //     secret:: number #internal\n  //     size:: number\n  resize(options) {}\n}\n"
+    };
+    const stripped: { module: string, id: string }[] = [];
+    generate([{ name: "module1", sources }], {}, { internal: "strip", stripped })["module1"].should.equal(
+      "export class Foo {\n  resize(options: { size: number }): void;\n}\n"
+    );
+    stripped.map((s) => s.id).should.deep.equal(["Foo.constructor", "Foo.resize^options.secret"]);
+  });
+
+  it('should recognize status markers in prose', () => {
+    const sources = {
+      "a.js": "// :: ()\n// **Deprecated**: Use `b`.\n//\n// Does a.\nexport function a() {}\n\n// :: () Internal. Used by c.\nexport function b() {}\n\n// :: () Internal state of things.\nexport function c() {}\n"
+    };
+    generate([{ name: "module1", sources }], {})["module1"].should.equal([
+      "/**",
+      " * Does a.",
+      " *",
+      " * @deprecated Use `b`.",
+      " */",
+      "export function a(): void;",
+      "/**",
+      " * @internal Used by c.",
+      " */",
+      "export function b(): void;",
+      "/**",
+      " * Internal state of things.",
+      " */",
+      "export function c(): void;",
+      ""
+    ].join("\n"));
+    generate([{ name: "module1", sources }], {}, { internal: "strip" })["module1"].should.not.contain("function b");
+  });
+
+  it('should collect the contents every module was declared from', () => {
+    const sources = {
+      "a.js": "// :: () #internal\nexport function hidden() {}\n\n// :: ()\nexport function omitted() {}\n\n// :: ()\nexport function shown() {}\n\nexport {Node} from \"module2\"\n"
+    };
+    const contents: { [moduleName: string]: ModuleContents } = {};
+    generate([{ name: "module1", sources }, { name: "module2", contents: { items: {} } }], {}, {
+      internal: "strip",
+      plugins: [{ gathered: (moduleName, mod) => {
+        const items = Object.assign({}, mod.items);
+        delete items["omitted"];
+        return Object.assign({}, mod, { items });
+      } }],
+      contents
+    });
+    Object.keys(contents["module1"].items || {}).should.deep.equal(["shown"]);
+    (contents["module1"].reexports || []).should.deep.equal([{ module: "module2", name: "Node" }]);
+  });
+
+  it('should indent, end lines and wrap as configured', () => {
+    const sources = {
+      "a.js": "// ::-\nexport class Foo {\n  // :: (string, number) → bool\n  check(name, count) {}\n  // :: ?union<string, number>\n  value() {}\n}\n\n// Choice:: union<\"first\", \"second\">\n"
+    };
+    const printer = { indent: "\t", lineEnding: "crlf" as "crlf", lineWidth: 24 };
+    generate([{ name: "module1", sources, header: "// header\n" }], {}, { printer })["module1"].should.equal([
+      "// header",
+      "export class Foo {",
+      "\tcheck(",
+      "\t\tname: string,",
+      "\t\tcount: number",
+      "\t): boolean;",
+      "\tvalue?:",
+      "\t\t| string",
+      "\t\t| number",
+      "\t\t| null;",
+      "}",
+      "export type Choice =",
+      "\t| \"first\"",
+      "\t| \"second\";",
+      ""
+    ].join("\r\n"));
+    generate([{ name: "module1", sources }], {}, { printer: { indent: "    " } })["module1"].should.equal([
+      "export class Foo {",
+      "    check(name: string, count: number): boolean;",
+      "    value?: string | number | null;",
+      "}",
+      "export type Choice = \"first\" | \"second\";",
+      ""
+    ].join("\n"));
+  });
+
+  it('should record conflicting type infos as errors', () => {
+    const foo = { type: "class" };
+    const diagnostics = new Diagnostics();
+    generate([{ name: "module1", contents: { items: { Foo: foo }, all: { Foo: foo } } }], {
+      Foo: { sourceModule: { name: "module2" } }
+    }, { diagnostics });
+    diagnostics.list.should.deep.equal([
+      { severity: "error", message: "conflicting 'sourceModule' information for type 'Foo'!", module: "module1" }
+    ])
+  });
+
+  it('should report compiler errors for the declaration that caused them', function () {
+    this.timeout(20000);
+    const foo = { type: "class", id: "Foo", loc: { file: "foo.js", line: 3 } };
+    const bar = { type: "interface", id: "Bar", extends: { type: "Foo" } };
+    const diagnostics = new Diagnostics();
+    generate([
+      { name: "module1", contents: { items: { Foo: foo }, all: { Foo: foo } } },
+      { name: "module2", contents: { items: { Bar: bar, Baz: { type: "Missing", id: "Baz", loc: { file: "baz.js", line: 7 } } } }, header: "// header\n" }
+    ], {}, { diagnostics, validate: true });
+    diagnostics.list.filter((d) => d.severity == "error").should.deep.equal([
+      {
+        severity: "error",
+        message: "TS2304: Cannot find name 'Missing'. (line 6 of the generated declarations)",
+        module: "module2",
+        id: "Baz",
+        loc: { file: "baz.js", line: 7 }
+      }
+    ])
+  });
+
+  it('should not validate without diagnostics to report to', () => {
+    (() => generate([{ name: "module1", contents: { items: { Foo: { type: "Missing" } } } }], {}, { validate: true }))
+      .should.throw("'validate' needs 'diagnostics' to report the compiler's errors to");
+  });
+
+  describe('with overrides', () => {
+
+    const view = () => ({
+      items: {
+        EditorView: {
+          type: "class", id: "EditorView",
+          properties: {
+            dispatch: { type: "Function", id: "EditorView.dispatch", description: "Dispatch a transaction.", params: [{ type: "number" }] },
+            root: { type: "any", id: "EditorView.root" }
+          }
+        }
+      }
+    });
+
+    it('should replace the type of a member and keep its description', () => {
+      const contents = view();
+      const files = generate([{ name: "prosemirror-view", contents }], { Transaction: {} }, {
+        overrides: { "view.EditorView.dispatch": { type: "(tr: Transaction)" } }
+      });
+      files["prosemirror-view"].should.equal([
+        "export class EditorView {",
+        "  /**",
+        "   * Dispatch a transaction.",
+        "   */",
+        "  dispatch(tr: Transaction): void;",
+        "  root: any;",
+        "}",
+        ""
+      ].join("\n"));
+      contents.items.EditorView.properties.dispatch.params.should.deep.equal([{ type: "number" }]);
+    });
+
+    it('should add, omit and mark members', () => {
+      generate([{ name: "prosemirror-view", contents: view() }], {}, {
+        overrides: {
+          "view.EditorView.dispatch": { omit: true },
+          "view.EditorView.root": { readonly: true, optional: true },
+          "view.EditorView^version": { type: "string" }
+        }
+      })["prosemirror-view"].should.equal([
+        "export class EditorView {",
+        "  readonly root?: any;",
+        "  static version: string;",
+        "}",
+        ""
+      ].join("\n"));
+    });
+
+    it('should override parameters and return values', () => {
+      const contents = { items: { EditorView: { type: "class", id: "EditorView", properties: {
+        dispatch: { type: "Function", id: "EditorView.dispatch", params: [{ type: "Object", name: "tr", id: "EditorView.dispatch^tr", description: "The transaction." }] },
+        focus: { type: "Function", id: "EditorView.focus", params: [], returns: { type: "any", id: "EditorView.focus^returns" } }
+      } } } };
+      generate([{ name: "prosemirror-view", contents }], { Transaction: {} }, {
+        overrides: {
+          "view.EditorView.dispatch^tr": { type: "Transaction", optional: true },
+          "view.EditorView.focus^returns": { type: "bool" }
+        }
+      })["prosemirror-view"].should.equal([
+        "export class EditorView {",
+        "  /**",
+        "   * @param tr The transaction.",
+        "   */",
+        "  dispatch(tr?: Transaction): void;",
+        "  focus(): boolean;",
+        "}",
+        ""
+      ].join("\n"));
+      contents.items.EditorView.properties.dispatch.params[0].should.not.have.property("optional");
+      contents.items.EditorView.properties.focus.returns.type.should.equal("any");
+    });
+
+    it('should override members named like the properties of objects', () => {
+      const properties = Object.create(null);
+      properties.toString = { type: "Function", id: "Node.toString", params: [], returns: { type: "string" } };
+      const items = Object.create(null);
+      items.Node = { type: "class", id: "Node", properties };
+      generate([{ name: "prosemirror-model", contents: { items } }], {}, {
+        overrides: { "model.Node.toString": { readonly: true }, "model.Node.constructor": { type: "(string)" } }
+      })["prosemirror-model"].should.equal([
+        "export class Node {",
+        "  constructor(p: string);",
+        "  readonly toString: () => string;",
+        "}",
+        ""
+      ].join("\n"));
+    });
+
+    it('should report overrides that don\'t apply', () => {
+      const diagnostics = new Diagnostics();
+      generate([{ name: "prosemirror-view", contents: view() }], {}, {
+        diagnostics,
+        overrides: {
+          "state.EditorState.doc": { type: "Node" },
+          "view.EditorView.focus": { optional: true },
+          "view.Missing.foo": { omit: true },
+          "view.EditorView.dispatch^tr": { type: "Transaction" },
+          "view.EditorView.root^returns": { type: "string" },
+          "view.EditorView.dispatch^returns": { readonly: true }
+        }
+      });
+      diagnostics.list.should.deep.equal([
+        { severity: "error", message: "override 'state.EditorState.doc' doesn't start with the name of a module" },
+        { severity: "error", message: "can't add 'EditorView.focus' without a type", module: "prosemirror-view", id: "EditorView.focus" },
+        { severity: "error", message: "no declaration for override 'Missing.foo'", module: "prosemirror-view", id: "Missing.foo" },
+        { severity: "error", message: "no declaration for override 'EditorView.dispatch^tr'", module: "prosemirror-view", id: "EditorView.dispatch^tr" },
+        { severity: "error", message: "no declaration for override 'EditorView.root^returns'", module: "prosemirror-view", id: "EditorView.root^returns" },
+        {
+          severity: "error", message: "'EditorView.dispatch^returns' is a return value, which can only get a type, optional and description",
+          module: "prosemirror-view", id: "EditorView.dispatch^returns"
+        }
+      ]);
+    });
+
+  });
+
+  describe('with plugins', () => {
+
+    const model = () => ({
+      items: {
+        Node: { type: "class", id: "Node", properties: { dom: { type: "dom.Node", id: "Node.dom" } } },
+        Schema: { type: "class", id: "Schema" }
+      }
+    });
+
+    it('should run every hook', () => {
+      const calls: string[] = [];
+      const plugin: Plugin = {
+        gathered: (moduleName, contents) => {
+          calls.push("gathered " + moduleName);
+          return { items: Object.assign({ Mark: { type: "class", id: "Mark" } }, contents.items) };
+        },
+        declaration: (moduleName, node) => {
+          if (node.kind == "class" && node.name == "Schema") return Object.assign({}, node, { typeParams: "<N extends string = any>" });
+        },
+        rendered: (moduleName, module) => {
+          calls.push("rendered " + moduleName);
+          return Object.assign({}, module, { lines: ["// patched"].concat(module.lines), origins: [null, ...module.origins] });
+        },
+        resolveTypeName: (moduleName, rawName) => rawName.slice(0, 4) == "dom." ? rawName.slice(4) : undefined
+      };
+      generate([{ name: "prosemirror-model", contents: model() }], {}, { plugins: [plugin] })["prosemirror-model"].should.equal([
+        "// patched",
+        "export class Mark {",
+        "}",
+        "export class Node {",
+        "  dom: Node;",
+        "}",
+        "export class Schema<N extends string = any> {",
+        "}",
+        ""
+      ].join("\n"));
+      calls.should.deep.equal(["gathered prosemirror-model", "rendered prosemirror-model"]);
+    });
+
+    it('should chain plugins and leave out declarations a plugin drops', () => {
+      const plugins: Plugin[] = [
+        { resolveTypeName: (moduleName, rawName) => rawName.slice(0, 4) == "dom." ? rawName.slice(4) : undefined },
+        { resolveTypeName: (moduleName, rawName) => rawName == "dom.Node" ? "ignored" : undefined, declaration: (moduleName, node) => node.kind == "class" && node.name == "Schema" ? null : undefined }
+      ];
+      generate([{ name: "prosemirror-model", contents: model() }], {}, { plugins })["prosemirror-model"].should.equal([
+        "export class Node {",
+        "  dom: Node;",
+        "}",
+        ""
+      ].join("\n"));
+    });
+
+    it('should import the types plugins add to declarations', () => {
+      const plugin: Plugin = {
+        declaration: (moduleName, node, context) => {
+          if (node.kind != "class" || moduleName != "prosemirror-state") return;
+          const doc = { kind: "property" as "property", doc: [], name: "doc", static: false, readonly: true, optional: false, type: [context.importType("Node")] };
+          return Object.assign({}, node, { members: node.members.concat([doc]) });
+        }
+      };
+      const node = { type: "class", id: "Node" };
+      const dependencies = {};
+      const files = generate([
+        { name: "prosemirror-model", contents: { items: { Node: node }, all: { Node: node } } },
+        { name: "prosemirror-state", contents: { items: { EditorState: { type: "class", id: "EditorState" } } } }
+      ], {}, { plugins: [plugin], dependencies });
+      files["prosemirror-state"].should.equal([
+        "import { Node } from 'prosemirror-model';",
+        "",
+        "export class EditorState {",
+        "  readonly doc: Node;",
+        "}",
+        ""
+      ].join("\n"));
+      dependencies.should.deep.equal({ "prosemirror-model": [], "prosemirror-state": ["prosemirror-model"] });
+    });
+
+    it('should name the plugin that failed', () => {
+      const plugin: Plugin = { name: "tighten-attrs", gathered: () => { throw new Error("oops") } };
+      (() => generate([{ name: "prosemirror-model", contents: model() }], {}, { plugins: [plugin] }))
+        .should.throw("plugin tighten-attrs failed in 'gathered': oops");
+    });
+
+    it('should reject rendered modules without an origin for every line', () => {
+      const plugin: Plugin = { rendered: (moduleName, module) => Object.assign({}, module, { lines: ["// patched"].concat(module.lines) }) };
+      (() => generate([{ name: "prosemirror-model", contents: model() }], {}, { plugins: [plugin] }))
+        .should.throw("plugin #1 failed in 'rendered': returned 6 lines but 5 origins");
+    });
+
+  });
+
+  it('should wrap every module in a declare module block when bundling', function () {
+    this.timeout(20000);
+    const node = { type: "class" };
+    const bar = { type: "class", extends: { type: "Node" } };
+    const modules = [
+      { name: "module1", contents: { items: { Node: node }, all: { Node: node } }, header: "// ignored\n" },
+      { name: "module2", contents: { items: { Bar: bar }, all: { Bar: bar } } }
+    ];
+    const diagnostics = new Diagnostics();
+    generateBundle(modules, { Node: { replaceBy: "ProsemirrorNode" } }, { header: "// bundle\n", diagnostics, validate: true }).should.equal([
+      "// bundle",
+      "declare module 'module1' {",
+      "  class ProsemirrorNode {",
+      "  }",
+      "  export { ProsemirrorNode as Node };",
+      "}",
+      "",
+      "declare module 'module2' {",
+      "  import { Node as ProsemirrorNode } from 'module1';",
+      "",
+      "  export class Bar extends ProsemirrorNode {",
+      "  }",
+      "}",
+      ""
+    ].join("\n"));
+    diagnostics.list.should.deep.equal([])
+  });
+
+});
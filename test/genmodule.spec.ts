@@ -1,4 +1,4 @@
-import moduleDef from "../src/genmodule";
+import moduleDef, {ModuleTransform} from "../src/genmodule";
 
 describe('when adding module definition', () => {
 
@@ -36,6 +36,16 @@ describe('when adding module definition', () => {
     ])
   });
 
+  it('should not import types shadowed by a type parameter', () => {
+    const module = { items: { Box: { type: "class", typeParams: [{ type: "Node" }], properties: { content: { type: "Node" } } } } };
+    const additionalTypes = { "Node": { sourceModule: { name: "prosemirror-model" } }};
+    moduleDef(module, "module1", additionalTypes).should.deep.equal([
+      "export class Box<Node> {",
+      "  content: Node;",
+      "}"
+    ])
+  });
+
   it('should replace additional type', () => {
     const module = { items: { RedNode: { type: "class", extends: { type: "Node" } }} };
     const additionalTypes = { "Node": { replaceBy: "ProsemirrorNode", sourceModule: { name: "prosemirror-model" }}};
@@ -57,4 +67,39 @@ describe('when adding module definition', () => {
     ])
   });
 
+  it('should apply transforms to the declarations before printing them', () => {
+    const module = { items: { Node: { type: "class", properties: { attrs: { type: "Object" } } } } };
+    const tightenAttrs: ModuleTransform = (node) => {
+      for (let decl of node.declarations) {
+        if (decl.kind != "class") continue
+        for (let member of decl.members) if (member.kind == "property" && member.name == "attrs") member.type = ["Attrs"]
+      }
+      return node
+    };
+    moduleDef(module, "module1", {}, { transforms: [tightenAttrs] }).should.deep.equal([
+      "export class Node {",
+      "  attrs: Attrs;",
+      "}"
+    ])
+  });
+
+  it('should import the types transforms ask for', () => {
+    const module = { items: { Node: { type: "class", properties: { attrs: { type: "Object" } } } } };
+    const typeInfos = { Attrs: { sourceModule: { name: "prosemirror-model" } }, Mark: { replaceBy: "PMMark", sourceModule: { name: "prosemirror-model" } } };
+    const typedAttrs: ModuleTransform = (node, context) => {
+      for (let decl of node.declarations) {
+        if (decl.kind != "class") continue
+        for (let member of decl.members) if (member.kind == "property") member.type = [context.importType("Attrs"), context.importType("Mark") + "[]"]
+      }
+      return node
+    };
+    moduleDef(module, "module1", typeInfos, { transforms: [typedAttrs] }).should.deep.equal([
+      "import { Attrs, Mark as PMMark } from 'prosemirror-model';",
+      "",
+      "export class Node {",
+      "  attrs: Attrs | PMMark[];",
+      "}"
+    ])
+  });
+
 });
\ No newline at end of file
@@ -1,5 +1,6 @@
-import {emptyEnvForTests} from "../src/env"
+import {emptyEnvForTests, GenEnv, IndexSignatureStyle, baseTypes, mergeTypeInfos} from "../src/env"
 import {typeDef} from "../src/gentype";
+import {Diagnostics} from "../src/diagnostics";
 import {Parameter, FunctionType} from "../src/types";
 
 function mkFunction(...params: Parameter[]): FunctionType {
@@ -37,6 +38,25 @@ describe('types', () => {
       typeDef(env, type).should.equal('"foo"')
     });
 
+    it('should handle numeric singleton types', () => {
+      typeDef(env, { type: "0" }).should.equal("0")
+      typeDef(env, { type: "1.5e3" }).should.equal("1.5e3")
+    });
+
+    it('should normalize escapes of string singleton types', () => {
+      typeDef(env, { type: '"tab\\tnew"' }).should.equal('"tab\\tnew"')
+      typeDef(env, { type: '"\\u00e9\\u{1F600}\\x41"' }).should.equal('"\u00e9\u{1F600}A"')
+      // getdocs cuts `"a\"b"` short after the backslash
+      typeDef(env, { type: '"a\\"' }).should.equal('"a\\\\"')
+    });
+
+    it('should not report literal types as unknown', () => {
+      const diagnostics = new Diagnostics();
+      const literalEnv = new GenEnv("test", {}, baseTypes, { diagnostics });
+      typeDef(literalEnv, { type: "union", typeParams: [{ type: "0" }, { type: '"a"' }, { type: "true" }] }).should.equal('0 | "a" | true')
+      diagnostics.list.should.deep.equal([])
+    });
+
   });
 
   describe('union type', () => {
@@ -95,6 +115,16 @@ describe('types', () => {
       typeDef(env, type).should.equal("Array<number | boolean>")
     });
 
+    it('should use the configured array style', () => {
+      const unions = { type: "Array", typeParams: [{ type: "union", typeParams: [{ type: "number" }, { type: "bool" }] }] };
+      const strings = { type: "Array", typeParams: [{ type: "string" }] };
+      const bracketsEnv = new GenEnv("test", {}, baseTypes, { printer: { arrayStyle: "brackets" } });
+      typeDef(bracketsEnv, unions).should.equal("(number | boolean)[]");
+      typeDef(bracketsEnv, strings).should.equal("string[]");
+      const genericEnv = new GenEnv("test", {}, baseTypes, { printer: { arrayStyle: "generic" } });
+      typeDef(genericEnv, { type: "Array", typeParams: [strings] }).should.equal("Array<Array<string>>");
+    });
+
   });
 
   describe('function type', () => {
@@ -174,6 +204,16 @@ describe('types', () => {
       typeDef(env, type).should.equal("(param1?: () => void) => void")
     });
 
+    it('generic function', () => {
+      const type: FunctionType = { type: "Function", typeParams: [{ type: "A" }], params: [{ type: "A", name: "a" }], returns: { type: "A" } }
+      typeDef(env, type).should.equal("<A>(a: A) => A")
+    });
+
+    it('generic function with a constrained type parameter', () => {
+      const type: FunctionType = { type: "Function", typeParams: [{ type: "T", extends: { type: "string" } }], params: [{ type: "T", name: "s" }] }
+      typeDef(env, type).should.equal("<T extends string>(s: T) => void")
+    });
+
   });
 
   describe('object type', () => {
@@ -188,6 +228,28 @@ describe('types', () => {
       typeDef(env, type).should.equal("{ [key: string]: any }")
     });
 
+    it('should declare index signatures in the configured style', () => {
+      const type = { type: "Object", typeParams: [{ type: "number" }] };
+      const styleEnv = (indexSignatures: IndexSignatureStyle) => new GenEnv("test", {}, baseTypes, { indexSignatures });
+      typeDef(styleEnv("readonly"), type).should.equal("{ readonly [name: string]: number }");
+      typeDef(styleEnv("record"), type).should.equal("Record<string, number>");
+      typeDef(styleEnv("undefined"), type).should.equal("{ [name: string]: number | undefined }");
+      typeDef(styleEnv("undefined"), { type: "Object" }).should.equal("{ [key: string]: any | undefined }");
+    });
+
+    it('should prefer the style of the value type and of Object', () => {
+      const typeInfos = mergeTypeInfos(baseTypes, { Mark: { indexSignature: "readonly" }, Object: { indexSignature: "undefined" } });
+      const styleEnv = new GenEnv("test", {}, typeInfos, { indexSignatures: "record" });
+      typeDef(styleEnv, { type: "Object", typeParams: [{ type: "Mark" }] }).should.equal("{ readonly [name: string]: Mark }");
+      typeDef(styleEnv, { type: "Object", typeParams: [{ type: "string" }] }).should.equal("Record<string, string>");
+      typeDef(styleEnv, { type: "Object" }).should.equal("{ [key: string]: any | undefined }");
+    });
+
+    it('should replace Object if configured', () => {
+      const replacedEnv = emptyEnvForTests({ Object: { replaceBy: "object" } });
+      typeDef(replacedEnv, { type: "Object" }).should.equal("object");
+    });
+
     it('with one property', () => {
       const type = { type: "Object", properties: { prop1: { type: "string" } } };
       typeDef(env, type).should.equal("{ prop1: string }")
@@ -211,6 +273,16 @@ describe('types', () => {
       typeDef(env, type).should.equal("{ prop1(p: string): boolean }")
     })
 
+    it('should use a method for each signature of an overloaded function', () => {
+      const type = {
+        type: "Object",
+        properties: {
+          prop1: { type: "union", $overloads: "true", typeParams: [{ type: "Function", params: [{ name: "p", type: "string" }] }, { type: "Function", params: [] }] }
+        }
+      };
+      typeDef(env, type).should.equal("{ prop1(p: string): void, prop1(): void }")
+    })
+
   });
 
   describe('other types (with parameters)', () => {
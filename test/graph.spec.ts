@@ -0,0 +1,20 @@
+import {findCycles, moduleDependencies} from "../src/graph";
+
+describe('dependency graph', () => {
+
+  it('should list imported and re-exported modules once', () => {
+    const imports = { "prosemirror-model": { names: ["Node"] }, orderedmap: { names: [], wholeModuleAs: "OrderedMap" } };
+    const reexports = [{ module: "prosemirror-model", name: "Mark" }, { module: "prosemirror-transform", name: "Step" }];
+    moduleDependencies(imports, reexports).should.deep.equal(["orderedmap", "prosemirror-model", "prosemirror-transform"])
+  });
+
+  it('should find no cycles in an acyclic graph', () => {
+    findCycles({ state: ["model", "transform"], transform: ["model"], model: [] }).should.deep.equal([])
+  });
+
+  it('should find the shortest cycle through each module', () => {
+    const graph = { a: ["b"], b: ["c", "a"], c: ["a"], d: ["e"], e: ["d", "orderedmap"] };
+    findCycles(graph).should.deep.equal([["a", "b", "a"], ["c", "a", "b", "c"], ["d", "e", "d"]])
+  });
+
+});
@@ -0,0 +1,42 @@
+import {packageHeader, exportedNames, scaffoldFiles} from "../src/scaffold";
+
+describe('DefinitelyTyped scaffolding', () => {
+
+  it('should build the header from the package info', () => {
+    packageHeader("prosemirror-model", {
+      version: "1.2.3",
+      project: "https://github.com/ProseMirror/prosemirror-model",
+      authors: [
+        { name: "Bradley Ayers", url: "https://github.com/bradleyayers" },
+        { name: "David Hahn", url: "https://github.com/davidka" }
+      ],
+      typeScriptVersion: "2.3"
+    }).should.equal([
+      "// Type definitions for prosemirror-model 1.2",
+      "// Project: https://github.com/ProseMirror/prosemirror-model",
+      "// Definitions by: Bradley Ayers <https://github.com/bradleyayers>",
+      "//                 David Hahn <https://github.com/davidka>",
+      "// Definitions: https://github.com/DefinitelyTyped/DefinitelyTyped",
+      "// TypeScript Version: 2.3",
+      "",
+      ""
+    ].join("\n"))
+  });
+
+  it('should list the exported names, including re-exports from configured modules', () => {
+    const contents = {
+      items: { Node: { type: "class" }, EditorState: { type: "class" } },
+      reexports: [{ module: "prosemirror-model", name: "Node" }, { module: "prosemirror-model", name: "Mark", exportedAs: "DocMark" }, { module: "./util", name: "helper" }, { module: "prosemirror-model", name: "*" }]
+    };
+    exportedNames("prosemirror-state", ["prosemirror-model", "prosemirror-state"], contents).should.deep.equal(["DocMark", "EditorState", "Node"])
+  });
+
+  it('should write a test that imports every exported name', () => {
+    const files = scaffoldFiles("prosemirror-state", ["EditorState", "Plugin"]);
+    Object.keys(files).should.deep.equal(["tsconfig.json", "tslint.json", "prosemirror-state-tests.ts"]);
+    files["prosemirror-state-tests.ts"].should.equal("import {\n  EditorState,\n  Plugin\n} from 'prosemirror-state';\n");
+    JSON.parse(files["tsconfig.json"]).files.should.deep.equal(["index.d.ts", "prosemirror-state-tests.ts"]);
+    scaffoldFiles("prosemirror-example-setup", [])["prosemirror-example-setup-tests.ts"].should.equal("import 'prosemirror-example-setup';\n");
+  });
+
+});
@@ -0,0 +1,24 @@
+import {vlq, declarationMap} from "../src/sourcemap";
+
+describe('declaration maps', () => {
+
+  it('should encode numbers as base64 VLQs', () => {
+    [0, 1, -1, 15, 16, -16, 123].map(vlq).should.deep.equal(["A", "C", "D", "e", "gB", "hB", "2H"])
+  });
+
+  it('should map every line with a documented origin to its doc comment', () => {
+    const node = { module: "prosemirror-model", name: "Node", id: "Node", loc: { file: "/src/model/src/node.js", line: 10, column: 0 } };
+    const child = { module: "prosemirror-model", name: "Node", id: "Node.child", loc: { file: "/src/model/src/node.js", line: 14, column: 2 } };
+    const mark = { module: "prosemirror-model", name: "Mark", id: "Mark", loc: { file: "/src/model/src/mark.js", line: 3 } };
+    const file = { text: "", origins: [null, node, child, node, null, mark] };
+    JSON.parse(declarationMap(file, "/types/prosemirror-model/index.d.ts")).should.deep.equal({
+      version: 3,
+      file: "index.d.ts",
+      sourceRoot: "",
+      sources: ["../../src/model/src/node.js", "../../src/model/src/mark.js"],
+      names: [],
+      mappings: ";AASA;AAIE;AAJF;;ACPA"
+    })
+  });
+
+});